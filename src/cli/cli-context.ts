@@ -0,0 +1,124 @@
+import { ConnectorConfiguration, ConnectorGroup, ConnectorSettings, CredentialProvider, ExchangeEnvironment } from '../types'
+import { getSklSymbol, loadConnectorSettings } from '../util/config'
+import { getCredentialProvider } from '../util/credentials'
+
+export interface CliOptions {
+    config?: string;
+    symbol?: string;
+    environment?: string;
+    json?: boolean;
+    verbose?: boolean;
+    help?: boolean;
+    events?: string;
+    depth?: string;
+    interval?: string;
+    side?: string;
+    type?: string;
+    price?: string;
+    quantity?: string;
+    id?: string;
+    'order-id'?: string[];
+    'skl-order-id'?: string[];
+    all?: boolean;
+    'last-price'?: string;
+    timeout?: string;
+}
+
+export interface CliContext {
+    settings: ConnectorSettings;
+    options: CliOptions;
+    // the command and its action, e.g. ['order', 'place']
+    positionals: string[];
+    sklSymbol: string;
+}
+
+const Environments: ExchangeEnvironment[] = ['Global', 'EEA', 'US', 'AWS', 'Demo']
+
+const DefaultTimeout = 30000
+
+// OKX only serves these public channels to logged in connections
+const LoginChannels = ['books50-l2-tbt', 'books-l2-tbt']
+
+// wrong usage, reported without a stack trace
+export class CliError extends Error {
+    constructor(message: string) {
+        super(message)
+        this.name = 'CliError'
+    }
+}
+
+// --symbol BTC keeps the configured quote asset, --symbol BTC-USDC replaces both
+export const createCliContext = (options: CliOptions, positionals: string[]): CliContext => {
+    const settings = loadConnectorSettings(options.config ?? 'config.json')
+    if (options.symbol !== undefined) {
+        const [base, quote] = options.symbol.toUpperCase().split('-')
+        settings.group = { name: base }
+        if (quote !== undefined) {
+            settings.config = { ...settings.config, quoteAsset: quote }
+        }
+    }
+    if (options.environment !== undefined) {
+        const environment = Environments.find((name: ExchangeEnvironment) => name.toLowerCase() === options.environment!.toLowerCase())
+        if (environment === undefined) {
+            throw new CliError(`Unknown environment ${options.environment}, expected one of ${Environments.join(', ')}`)
+        }
+        settings.config = { ...settings.config, environment }
+    }
+    return { settings, options, positionals, sklSymbol: getSklSymbol(settings.group, settings.config) }
+}
+
+// the credential for a public connector, only when one of its channels needs a login
+export const getPublicCredentialProvider = (settings: ConnectorSettings, config: ConnectorConfiguration): CredentialProvider | undefined => {
+    const groups = [settings.group, ...(config.groups ?? [])]
+    const channels = [...(config.channels ?? []), ...groups.flatMap((group: ConnectorGroup) => group.channels ?? [])]
+    if (!channels.some((channel: string) => LoginChannels.includes(channel))) {
+        return undefined
+    }
+    return getCredentialProvider(settings)
+}
+
+export const parseNumber = (value: string | undefined, name: string): number | undefined => {
+    if (value === undefined) {
+        return undefined
+    }
+    const parsed = Number(value)
+    if (value.trim() === '' || !Number.isFinite(parsed)) {
+        throw new CliError(`--${name} must be a number, got ${value}`)
+    }
+    return parsed
+}
+
+export const requireNumber = (value: string | undefined, name: string): number => {
+    const parsed = parseNumber(value, name)
+    if (parsed === undefined) {
+        throw new CliError(`--${name} is required`)
+    }
+    return parsed
+}
+
+export const getTimeout = (options: CliOptions): number => {
+    return parseNumber(options.timeout, 'timeout') ?? DefaultTimeout
+}
+
+export const withTimeout = <T>(promise: Promise<T>, timeout: number, action: string): Promise<T> => {
+    let timer: NodeJS.Timeout | undefined
+    const expired = new Promise<never>((resolve, reject) => {
+        timer = setTimeout(() => reject(new CliError(`${action} timed out after ${timeout}ms`)), timeout)
+    })
+    return Promise.race([promise, expired]).finally(() => clearTimeout(timer))
+}
+
+// streaming commands run until interrupted, stop is awaited before the process exits
+export const onInterrupt = (stop: () => Promise<void>) => {
+    let stopping = false
+    const handler = async () => {
+        if (stopping) {
+            process.exit(130)
+        }
+        stopping = true
+        await stop()
+        process.exit(0)
+    }
+    process.on('SIGINT', handler)
+    process.on('SIGTERM', handler)
+}
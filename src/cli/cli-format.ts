@@ -0,0 +1,50 @@
+export type TableValue = string | number | boolean | undefined | null
+
+export type TableRow = { [column: string]: TableValue }
+
+export interface TableColumn {
+    name: string;
+    width: number;
+}
+
+// enough digits for any price or size, without float noise such as 0.30000000000000004
+const formatNumber = (value: number): string => {
+    return Number.isInteger(value) ? String(value) : String(parseFloat(value.toPrecision(12)))
+}
+
+export const formatValue = (value: TableValue): string => {
+    if (value === undefined || value === null) {
+        return ''
+    }
+    return typeof value === 'number' ? formatNumber(value) : String(value)
+}
+
+// numbers are right aligned, everything else left aligned
+export const formatRow = (values: TableValue[], columns: TableColumn[]): string => {
+    return columns
+        .map((column: TableColumn, index: number) => {
+            const value = values[index]
+            const text = formatValue(value)
+            return typeof value === 'number' ? text.padStart(column.width) : text.padEnd(column.width)
+        })
+        .join('  ')
+        .trimEnd()
+}
+
+export const formatHeader = (columns: TableColumn[]): string => {
+    return [
+        formatRow(columns.map((column: TableColumn) => column.name), columns),
+        formatRow(columns.map((column: TableColumn) => '-'.repeat(column.width)), columns),
+    ].join('\n')
+}
+
+// columns default to every key of the rows, in order of appearance
+export const formatTable = (rows: TableRow[], names?: string[]): string => {
+    const columnNames = names ?? Array.from(new Set(rows.flatMap((row: TableRow) => Object.keys(row))))
+    const columns: TableColumn[] = columnNames.map((name: string) => ({
+        name,
+        width: Math.max(name.length, ...rows.map((row: TableRow) => formatValue(row[name]).length)),
+    }))
+    const lines = rows.map((row: TableRow) => formatRow(columnNames.map((name: string) => row[name]), columns))
+    return [formatHeader(columns), ...lines].join('\n')
+}
@@ -0,0 +1,175 @@
+import { EventStream, SklEventType } from '../events/event-stream'
+import { BookInvalidated, BookLevel, ConnectorFactory, OrderBook, PublicExchangeConnector, Serializable } from '../types'
+import { CliContext, CliError, getPublicCredentialProvider, onInterrupt, parseNumber } from './cli-context'
+import { formatHeader, formatRow, formatTable, formatValue, TableColumn, TableRow, TableValue } from './cli-format'
+
+const StreamEvents: SklEventType[] = ['Trade', 'TopOfBook', 'Ticker', 'IndexPrice', 'Candle', 'OrderBook', 'BookInvalidated', 'SubscriptionStatus']
+const DefaultStreamEvents = 'Trade,TopOfBook,Ticker'
+
+const StreamColumns: TableColumn[] = [
+    { name: 'time', width: 12 },
+    { name: 'event', width: 10 },
+    { name: 'symbol', width: 12 },
+    { name: 'side', width: 4 },
+    { name: 'price', width: 12 },
+    { name: 'size', width: 12 },
+    { name: 'bidSize', width: 12 },
+    { name: 'bid', width: 12 },
+    { name: 'ask', width: 12 },
+    { name: 'askSize', width: 12 },
+    { name: 'info', width: 0 },
+]
+
+const DefaultBookDepth = 10
+// ms between redraws of the book
+const DefaultBookInterval = 250
+
+const ClearScreen = '\x1b[2J\x1b[H'
+
+const createPublicConnector = (context: CliContext, overrides: object = {}): PublicExchangeConnector => {
+    const { settings } = context
+    // recordings and candles are left to the long running connectors
+    const config = { ...settings.config, recording: undefined, candleIntervals: undefined, ...overrides }
+    return ConnectorFactory.getPublicConnector(settings.group, config, getPublicCredentialProvider(settings, config))
+}
+
+// the consumer ends when the connector can't connect, with a failed exit code
+const attachConnector = (stream: EventStream, connector: PublicExchangeConnector) => {
+    stream.attach(connector).catch((error: Error) => {
+        console.error(`skl: ${error.message}`)
+        process.exitCode = 1
+        stream.close()
+    })
+}
+
+const parseStreamEvents = (value: string): SklEventType[] => {
+    return value.split(',').map((name: string) => {
+        const event = StreamEvents.find((streamEvent: SklEventType) => streamEvent.toLowerCase() === name.trim().toLowerCase())
+        if (event === undefined) {
+            throw new CliError(`Unknown event ${name}, expected some of ${StreamEvents.join(', ')}`)
+        }
+        return event
+    })
+}
+
+const formatTime = (timestamp: number): string => {
+    return new Date(timestamp).toISOString().slice(11, 23)
+}
+
+const getStreamValues = (event: Serializable): TableValue[] => {
+    const values: TableRow = { time: formatTime(event.timestamp), event: event.event, symbol: event.symbol }
+    if (event.event === 'Trade') {
+        Object.assign(values, { side: event.side, price: event.price, size: event.size })
+    } else if (event.event === 'TopOfBook') {
+        Object.assign(values, { bidSize: event.bidSize, bid: event.bidPrice, ask: event.askPrice, askSize: event.askSize })
+    } else if (event.event === 'Ticker') {
+        Object.assign(values, {
+            price: event.lastPrice,
+            bidSize: event.bidSize,
+            bid: event.bidPrice,
+            ask: event.askPrice,
+            askSize: event.askSize,
+            info: `24h ${formatValue(event.low24h)}-${formatValue(event.high24h)} vol ${formatValue(event.volume24h)}`,
+        })
+    } else if (event.event === 'IndexPrice') {
+        Object.assign(values, { price: event.price, info: `24h ${formatValue(event.low24h)}-${formatValue(event.high24h)}` })
+    } else if (event.event === 'Candle') {
+        Object.assign(values, { price: event.close, size: event.volume, info: `${event.interval}${event.closed ? ' closed' : ''}` })
+    } else if (event.event === 'OrderBook') {
+        Object.assign(values, { bidSize: event.bids[0]?.size, bid: event.bids[0]?.price, ask: event.asks[0]?.price, askSize: event.asks[0]?.size, info: `${event.bids.length}x${event.asks.length} levels` })
+    } else if (event.event === 'BookInvalidated') {
+        Object.assign(values, { info: event.reason })
+    } else if (event.event === 'SubscriptionStatus') {
+        Object.assign(values, { info: `${event.channel} ${event.status}${event.reason ? `: ${event.reason}` : ''}` })
+    }
+    return StreamColumns.map((column: TableColumn) => values[column.name])
+}
+
+// tails the public events of the configured instruments until interrupted
+export const runStream = async (context: CliContext) => {
+    const { options } = context
+    const events = parseStreamEvents(options.events ?? DefaultStreamEvents)
+    const connector = createPublicConnector(context)
+    const stream = new EventStream()
+    // a slow terminal only ever sees the latest TopOfBook
+    const consumer = stream.subscribe({ events, overflow: 'ConflateTopOfBook' })
+    onInterrupt(async () => {
+        stream.close()
+        await connector.stop()
+    })
+    attachConnector(stream, connector)
+
+    if (!options.json) {
+        console.log(formatHeader(StreamColumns))
+    }
+    for await (const event of consumer) {
+        console.log(options.json ? JSON.stringify(event) : formatRow(getStreamValues(event), StreamColumns))
+    }
+}
+
+const formatSpread = (book: OrderBook): string => {
+    const bid = book.bids[0]
+    const ask = book.asks[0]
+    if (bid === undefined || ask === undefined) {
+        return 'spread -'
+    }
+    const spread = ask.price - bid.price
+    const mid = (ask.price + bid.price) / 2
+    return `spread ${formatValue(spread)} (${(spread / mid * 10000).toFixed(2)} bps)`
+}
+
+const renderBook = (book: OrderBook, depth: number): string => {
+    const toRow = (side: string) => (level: BookLevel): TableRow => ({ side, price: level.price, size: level.size })
+    const rows = [
+        ...book.asks.slice(0, depth).reverse().map(toRow('ask')),
+        ...book.bids.slice(0, depth).map(toRow('bid')),
+    ]
+    return [
+        `${book.symbol}  ${new Date(book.timestamp).toISOString()}  ${formatSpread(book)}`,
+        '',
+        formatTable(rows, ['side', 'price', 'size']),
+    ].join('\n')
+}
+
+const renderInvalidated = (event: BookInvalidated): string => {
+    return `${event.symbol}  ${new Date(event.timestamp).toISOString()}  book invalidated: ${event.reason}, waiting for a new snapshot`
+}
+
+// redraws the depth of the group's instrument at most every interval, until interrupted
+export const runBook = async (context: CliContext) => {
+    const { options } = context
+    const depth = parseNumber(options.depth, 'depth') ?? DefaultBookDepth
+    const interval = parseNumber(options.interval, 'interval') ?? DefaultBookInterval
+    if (!Number.isInteger(depth) || depth < 1) {
+        throw new CliError(`--depth must be a positive integer, got ${options.depth}`)
+    }
+    const connector = createPublicConnector(context, { channels: ['books'], bookDepth: depth, groups: undefined })
+    const redraw = Boolean(process.stdout.isTTY) && !options.json
+    // only the latest book is worth drawing
+    let latest: OrderBook | BookInvalidated | undefined
+    const timer = setInterval(() => {
+        if (latest === undefined) {
+            return
+        }
+        if (options.json) {
+            console.log(JSON.stringify(latest))
+        } else {
+            const text = latest.event === 'OrderBook' ? renderBook(latest, depth) : renderInvalidated(latest)
+            process.stdout.write(`${redraw ? ClearScreen : ''}${text}\n${redraw ? '' : '\n'}`)
+        }
+        latest = undefined
+    }, interval)
+    onInterrupt(async () => {
+        clearInterval(timer)
+        await connector.stop()
+    })
+    await connector.connect((messages: Serializable[]) => {
+        messages.forEach((message: Serializable) => {
+            if ((message.event === 'OrderBook' || message.event === 'BookInvalidated') && message.symbol === context.sklSymbol) {
+                latest = message
+            }
+        })
+    })
+    // drawn by the timer until interrupted
+    await new Promise<never>(() => {})
+}
@@ -0,0 +1,214 @@
+import { isMarketOrderType } from '../connectors/public/okx-spot'
+import { ConnectorFactory, OrderAmendment, OrderStatusUpdate, OrderType, PrivateExchangeConnector, Serializable, Side } from '../types'
+import { getCredentialProvider } from '../util/credentials'
+import { CliContext, CliError, getPublicCredentialProvider, getTimeout, parseNumber, requireNumber, withTimeout } from './cli-context'
+import { formatTable, TableRow } from './cli-format'
+
+type OrderAction = (connector: PrivateExchangeConnector, context: CliContext) => Promise<void>
+
+const OrderTypes: OrderType[] = ['Limit', 'Market', 'LimitMaker', 'ImmediateOrCancel', 'FillOrKill', 'OptimalLimitImmediateOrCancel']
+
+const OrderColumns = ['orderId', 'sklOrderId', 'side', 'state', 'price', 'size', 'filled_size', 'filled_price']
+
+// each invocation is short lived, orders it placed must outlive it
+const createPrivateConnector = (context: CliContext): PrivateExchangeConnector => {
+    const { settings } = context
+    const config = { ...settings.config, cancelOnStop: false, recording: undefined, candleIntervals: undefined, pnlInterval: undefined }
+    return ConnectorFactory.getPrivateConnector(settings.group, config, getCredentialProvider(settings))
+}
+
+const findOption = <T extends string>(value: string, values: T[], name: string): T => {
+    const found = values.find((candidate: T) => candidate.toLowerCase() === value.toLowerCase())
+    if (found === undefined) {
+        throw new CliError(`Unknown ${name} ${value}, expected one of ${values.join(', ')}`)
+    }
+    return found
+}
+
+const print = (context: CliContext, rows: TableRow[], columns?: string[]) => {
+    if (context.options.json) {
+        rows.forEach((row: TableRow) => console.log(JSON.stringify(row)))
+    } else if (rows.length > 0) {
+        console.log(formatTable(rows, columns))
+    }
+}
+
+// exchange results carry a non zero sCode when the operation failed
+const printResults = (context: CliContext, results: TableRow[]) => {
+    print(context, results)
+    if (results.some((result: TableRow) => result.sCode !== undefined && result.sCode !== '0')) {
+        process.exitCode = 1
+    }
+}
+
+const printRejections = (context: CliContext, rejections: OrderStatusUpdate[]) => {
+    if (rejections.length === 0) {
+        return
+    }
+    if (!context.options.json) {
+        console.log('Rejected before reaching the exchange:')
+    }
+    print(context, rejections.map((rejection: OrderStatusUpdate) => ({ ...rejection })), ['sklOrderId', 'side', 'price', 'size', 'reason'])
+    process.exitCode = 1
+}
+
+const getOrderIds = (context: CliContext): { orderIds: string[], sklOrderIds: string[] } => {
+    return {
+        orderIds: context.options['order-id'] ?? [],
+        sklOrderIds: context.options['skl-order-id'] ?? [],
+    }
+}
+
+const placeOrder: OrderAction = async (connector: PrivateExchangeConnector, context: CliContext) => {
+    const { options } = context
+    if (options.side === undefined) {
+        throw new CliError('--side is required')
+    }
+    const side: Side = findOption(options.side, ['Buy', 'Sell'], 'side')
+    const type: OrderType = findOption(options.type ?? 'Limit', OrderTypes, 'order type')
+    const quantity = requireNumber(options.quantity, 'quantity')
+    // market orders ignore the price
+    const price = isMarketOrderType(type) ? parseNumber(options.price, 'price') ?? 0 : requireNumber(options.price, 'price')
+    const results = await connector.placeOrders({
+        event: 'BatchOrdersRequest',
+        symbol: context.sklSymbol,
+        connectorType: context.settings.config.connectorType,
+        timestamp: Date.now(),
+        orders: [{ sklOrderId: options.id, side, type, price, quantity }],
+    })
+    printResults(context, results)
+}
+
+const cancelOrders: OrderAction = async (connector: PrivateExchangeConnector, context: CliContext) => {
+    let { orderIds, sklOrderIds } = getOrderIds(context)
+    if (context.options.all) {
+        const open = await connector.getCurrentActiveOrders({
+            event: 'OpenOrdersRequest',
+            symbol: context.sklSymbol,
+            connectorType: context.settings.config.connectorType,
+            timestamp: Date.now(),
+        })
+        orderIds = open.map((order: OrderStatusUpdate) => order.orderId)
+        sklOrderIds = []
+    } else if (orderIds.length === 0 && sklOrderIds.length === 0) {
+        throw new CliError('--order-id, --skl-order-id or --all is required')
+    }
+    if (orderIds.length === 0 && sklOrderIds.length === 0) {
+        console.error(`No open orders for ${context.sklSymbol}`)
+        return
+    }
+    const results = await connector.cancelOrders({
+        event: 'CancelOrdersRequest',
+        symbol: context.sklSymbol,
+        connectorType: context.settings.config.connectorType,
+        timestamp: Date.now(),
+        orderIds,
+        sklOrderIds,
+    })
+    printResults(context, results)
+}
+
+const amendOrder: OrderAction = async (connector: PrivateExchangeConnector, context: CliContext) => {
+    const { orderIds, sklOrderIds } = getOrderIds(context)
+    if (orderIds.length + sklOrderIds.length !== 1) {
+        throw new CliError('Exactly one --order-id or --skl-order-id is required')
+    }
+    const amendment: OrderAmendment = {
+        orderId: orderIds[0],
+        sklOrderId: sklOrderIds[0],
+        price: parseNumber(context.options.price, 'price'),
+        quantity: parseNumber(context.options.quantity, 'quantity'),
+    }
+    if (amendment.price === undefined && amendment.quantity === undefined) {
+        throw new CliError('--price or --quantity is required')
+    }
+    const results = await connector.amendOrders({
+        event: 'AmendOrdersRequest',
+        symbol: context.sklSymbol,
+        connectorType: context.settings.config.connectorType,
+        timestamp: Date.now(),
+        amendments: [amendment],
+    })
+    printResults(context, results)
+}
+
+const listOrders: OrderAction = async (connector: PrivateExchangeConnector, context: CliContext) => {
+    const orders = await connector.getCurrentActiveOrders({
+        event: 'OpenOrdersRequest',
+        symbol: context.sklSymbol,
+        connectorType: context.settings.config.connectorType,
+        timestamp: Date.now(),
+    })
+    if (orders.length === 0 && !context.options.json) {
+        console.error(`No open orders for ${context.sklSymbol}`)
+    }
+    print(context, orders.map((order: OrderStatusUpdate) => ({ ...order })), context.options.json ? undefined : OrderColumns)
+}
+
+const OrderActions: { [action: string]: OrderAction } = {
+    place: placeOrder,
+    cancel: cancelOrders,
+    amend: amendOrder,
+    list: listOrders,
+}
+
+// connects, runs one action and stops again, leaving open orders in place
+export const runOrder = async (context: CliContext) => {
+    const action = OrderActions[context.positionals[1] ?? '']
+    if (action === undefined) {
+        throw new CliError(`Unknown order action ${context.positionals[1] ?? ''}, expected place, cancel, amend or list`)
+    }
+    const connector = createPrivateConnector(context)
+    // risk checks report rejected orders as events instead of errors
+    const rejections: OrderStatusUpdate[] = []
+    try {
+        await withTimeout(connector.connect((messages: Serializable[]) => {
+            messages.forEach((message: Serializable) => {
+                if (message.event === 'OrderStatusUpdate' && message.state === 'Rejected') {
+                    rejections.push(message)
+                }
+            })
+        }), getTimeout(context.options), 'Connecting to the exchange')
+        await action(connector, context)
+        printRejections(context, rejections)
+    } finally {
+        await connector.stop()
+    }
+}
+
+// the base asset is valued at --last-price, or at the TopOfBook mid when it isn't given
+export const runBalance = async (context: CliContext) => {
+    const { settings, options } = context
+    const timeout = getTimeout(options)
+    const lastPrice = parseNumber(options['last-price'], 'last-price') ?? await getMidPrice(context, timeout)
+    const connector = createPrivateConnector(context)
+    try {
+        await withTimeout(connector.connect(() => {}), timeout, 'Connecting to the exchange')
+        const balance = await connector.getBalancePercentage({
+            event: 'BalanceRequest',
+            symbol: context.sklSymbol,
+            connectorType: settings.config.connectorType,
+            timestamp: Date.now(),
+            lastPrice,
+        })
+        print(context, [{ ...balance, lastPrice }], options.json ? undefined : ['symbol', 'baseBalance', 'quoteBalance', 'lastPrice', 'inventory'])
+    } finally {
+        await connector.stop()
+    }
+}
+
+const getMidPrice = (context: CliContext, timeout: number): Promise<number> => {
+    const { settings } = context
+    const config = { ...settings.config, channels: ['books'], groups: undefined, recording: undefined, candleIntervals: undefined, bookDepth: undefined }
+    const connector = ConnectorFactory.getPublicConnector(settings.group, config, getPublicCredentialProvider(settings, config))
+    const mid = new Promise<number>((resolve, reject) => {
+        connector.connect((messages: Serializable[]) => {
+            messages.forEach((message: Serializable) => {
+                if (message.event === 'TopOfBook' && message.symbol === context.sklSymbol) {
+                    resolve((message.bidPrice + message.askPrice) / 2)
+                }
+            })
+        }).catch(reject)
+    })
+    return withTimeout(mid, timeout, 'Waiting for a TopOfBook').finally(() => connector.stop())
+}
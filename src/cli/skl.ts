@@ -0,0 +1,106 @@
+#!/usr/bin/env node
+import { parseArgs } from 'util'
+import '../connectors'
+import { OkxOrderValidationError } from '../connectors/public/okx-spot-errors'
+import { Logger } from '../util/logging'
+import { CliContext, CliError, CliOptions, createCliContext } from './cli-context'
+import { runBook, runStream } from './cli-market-data'
+import { runBalance, runOrder } from './cli-orders'
+
+const Usage = `Usage: skl <command> [options]
+
+Commands:
+  stream                    tail public events of the configured instruments
+  book                      render the live depth of the instrument
+  order place               place one order
+  order cancel              cancel orders by id, or all open orders with --all
+  order amend               change the price and/or quantity of one order
+  order list                list open orders
+  balance                   print base and quote balances and the inventory percentage
+
+Options:
+  -c, --config <path>       connector settings with environment and credentials (config.json)
+  -s, --symbol <symbol>     base asset, or BASE-QUOTE, instead of the configured group
+  -e, --environment <name>  Global, EEA, US, AWS or Demo instead of the configured environment
+      --json                one JSON object per line instead of tables
+  -v, --verbose             include connector logs, written to stdout
+      --timeout <ms>        wait for the exchange this long before giving up (30000)
+
+stream:   --events <list>   comma separated event types (Trade,TopOfBook,Ticker)
+book:     --depth <levels>  levels per side (10), --interval <ms> between redraws (250)
+place:    --side <Buy|Sell> --quantity <size> [--price <price>] [--type <type>] [--id <sklOrderId>]
+cancel:   --order-id <id> / --skl-order-id <id>, repeatable, or --all
+amend:    --order-id <id> or --skl-order-id <id>, with --price and/or --quantity
+balance:  [--last-price <price>], the TopOfBook mid is used when it isn't given`
+
+type Command = (context: CliContext) => Promise<void>
+
+const Commands: { [command: string]: Command } = {
+    stream: runStream,
+    book: runBook,
+    order: runOrder,
+    balance: runBalance,
+}
+
+const parseCommandLine = (): { options: CliOptions, positionals: string[] } => {
+    const { values, positionals } = parseArgs({
+        allowPositionals: true,
+        options: {
+            config: { type: 'string', short: 'c' },
+            symbol: { type: 'string', short: 's' },
+            environment: { type: 'string', short: 'e' },
+            json: { type: 'boolean' },
+            verbose: { type: 'boolean', short: 'v' },
+            help: { type: 'boolean', short: 'h' },
+            timeout: { type: 'string' },
+            events: { type: 'string' },
+            depth: { type: 'string' },
+            interval: { type: 'string' },
+            side: { type: 'string' },
+            type: { type: 'string' },
+            price: { type: 'string' },
+            quantity: { type: 'string' },
+            id: { type: 'string' },
+            'order-id': { type: 'string', multiple: true },
+            'skl-order-id': { type: 'string', multiple: true },
+            all: { type: 'boolean' },
+            'last-price': { type: 'string' },
+        },
+    })
+    return { options: values as CliOptions, positionals }
+}
+
+const main = async () => {
+    let commandLine
+    try {
+        commandLine = parseCommandLine()
+    } catch (error) {
+        throw new CliError((error as Error).message)
+    }
+    const { options, positionals } = commandLine
+    const command = Commands[positionals[0] ?? '']
+    if (options.help || positionals.length === 0) {
+        console.log(Usage)
+        return
+    }
+    if (command === undefined) {
+        throw new CliError(`Unknown command ${positionals[0]}`)
+    }
+    // connector logs would mix with the output, warnings and errors still go to stderr
+    Logger.setLevel(options.verbose ? 'log' : 'warn')
+    await command(createCliContext(options, positionals))
+}
+
+main()
+    .then(() => process.exit())
+    .catch((error: Error) => {
+        console.error(`skl: ${error.message}`)
+        if (error instanceof OkxOrderValidationError) {
+            error.reasons.forEach((reason: string) => console.error(`  ${reason}`))
+        }
+        if (error instanceof CliError) {
+            console.error(`Run skl --help for usage`)
+            process.exit(2)
+        }
+        process.exit(1)
+    })
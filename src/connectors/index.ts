@@ -0,0 +1,23 @@
+import { ConnectorFactory } from '../types'
+import { OkxSpotPaperConnector } from './public/okx-spot-paper-connector'
+import { OkxSpotPrivateConnector } from './public/okx-spot-private-connector'
+import { OKXSpotPublicConnector } from './public/okx-spot-public-connector'
+import { OkxSpotReplayConnector } from './public/okx-spot-replay-connector'
+
+ConnectorFactory.register('Okx', {
+    publicConnector: (group, config, credential) => {
+        if (config.replay) {
+            return new OkxSpotReplayConnector(group, config, config.replay)
+        }
+        return new OKXSpotPublicConnector(group, config, credential)
+    },
+    privateConnector: (group, config, credential) => {
+        if (config.paperTrading) {
+            return new OkxSpotPaperConnector(group, config)
+        }
+        if (credential === undefined) {
+            throw new Error('A credential is required for the Okx private connector')
+        }
+        return new OkxSpotPrivateConnector(group, config, credential)
+    },
+})
@@ -0,0 +1,37 @@
+import { ConnectorConfiguration, ExchangeEnvironment } from "../../types"
+
+export interface OkxEndpoints {
+    publicWebsocket: string;
+    privateWebsocket: string;
+    businessWebsocket: string;
+    rest: string;
+    // demo trading, REST requests carry the x-simulated-trading header
+    simulated: boolean;
+}
+
+const createOkxEndpoints = (websocketHost: string, restHost: string, simulated: boolean = false): OkxEndpoints => {
+    return {
+        publicWebsocket: `wss://${websocketHost}:8443/ws/v5/public`,
+        privateWebsocket: `wss://${websocketHost}:8443/ws/v5/private`,
+        businessWebsocket: `wss://${websocketHost}:8443/ws/v5/business`,
+        rest: `https://${restHost}`,
+        simulated,
+    }
+}
+
+const OkxEnvironments: { [key in ExchangeEnvironment]: OkxEndpoints } = {
+    'Global': createOkxEndpoints('ws.okx.com', 'www.okx.com'),
+    'EEA': createOkxEndpoints('wseea.okx.com', 'eea.okx.com'),
+    'US': createOkxEndpoints('wsus.okx.com', 'us.okx.com'),
+    'AWS': createOkxEndpoints('wsaws.okx.com', 'aws.okx.com'),
+    'Demo': createOkxEndpoints('wspap.okx.com', 'www.okx.com', true),
+}
+
+// the configured environment, EEA by default, with any overridden URLs applied
+export const getOkxEndpoints = (config: ConnectorConfiguration): OkxEndpoints => {
+    const endpoints = OkxEnvironments[config.environment ?? 'EEA']
+    if (endpoints === undefined) {
+        throw new Error(`Unknown Okx environment ${config.environment}`)
+    }
+    return { ...endpoints, ...config.endpoints }
+}
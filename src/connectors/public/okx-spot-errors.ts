@@ -0,0 +1,64 @@
+export class OkxError extends Error {
+    constructor(message: string, public readonly code?: string) {
+        super(message)
+        this.name = new.target.name
+    }
+}
+
+// the request never reached the exchange, or the connection dropped before it answered
+export class OkxConnectionError extends OkxError {}
+
+// no response within the deadline, the outcome of the request is unknown
+export class OkxRequestTimeoutError extends OkxError {}
+
+// a response envelope with a non zero code
+export class OkxApiError extends OkxError {}
+
+export class OkxAuthenticationError extends OkxApiError {}
+
+export class OkxRateLimitError extends OkxApiError {}
+
+export class OkxServiceUnavailableError extends OkxApiError {}
+
+export class OkxInvalidRequestError extends OkxApiError {}
+
+export class OkxInsufficientBalanceError extends OkxApiError {}
+
+export class OkxOrderNotFoundError extends OkxApiError {}
+
+// the http request failed without an OKX envelope in the body
+export class OkxHttpError extends OkxError {
+    constructor(message: string, public readonly status: number) {
+        super(message)
+    }
+}
+
+const OkxErrorCodeMap: { [key: string]: typeof OkxApiError } = {
+    '50001': OkxServiceUnavailableError,
+    '50004': OkxServiceUnavailableError,
+    '50013': OkxServiceUnavailableError,
+    '50026': OkxServiceUnavailableError,
+    '50011': OkxRateLimitError,
+    '50061': OkxRateLimitError,
+    '50014': OkxInvalidRequestError,
+    '51000': OkxInvalidRequestError,
+    '51008': OkxInsufficientBalanceError,
+    '51603': OkxOrderNotFoundError,
+}
+
+export const createOkxApiError = (code: string, msg: string): OkxApiError => {
+    const message = `OKX error ${code}: ${msg}`
+    // 501xx are all authentication failures
+    if (code.startsWith('501')) {
+        return new OkxAuthenticationError(message, code)
+    }
+    const ErrorType = OkxErrorCodeMap[code] ?? OkxApiError
+    return new ErrorType(message, code)
+}
+
+// an order failed local checks and was never sent to the exchange
+export class OkxOrderValidationError extends OkxError {
+    constructor(message: string, public readonly reasons: string[]) {
+        super(message)
+    }
+}
@@ -0,0 +1,140 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs'
+import { dirname } from 'path'
+import { Side } from '../../types'
+import { Logger } from '../../util/logging'
+import { OkxRestClient } from './okx-spot-rest-client'
+
+export interface OkxInstrument {
+    instId: string;
+    instType: string;
+    baseCcy: string;
+    quoteCcy: string;
+    tickSz: string;
+    lotSz: string;
+    minSz: string;
+    state: string;
+}
+
+export type OkxOrderRounding = 'round' | 'reject'
+
+export interface OkxNormalizedOrder {
+    px?: string;
+    sz: string;
+    reasons: string[];
+}
+
+const logger = Logger.getInstance('okx-spot-instruments')
+
+const countDecimals = (step: string): number => {
+    const index = step.indexOf('.')
+    return index === -1 ? 0 : step.length - index - 1
+}
+
+// number of steps in value, callers allow for floating point remainders e.g. 0.3 / 0.1
+const toSteps = (value: number, step: string): number => {
+    return value / parseFloat(step)
+}
+
+const isMultiple = (value: number, step: string): boolean => {
+    const steps = toSteps(value, step)
+    return Math.abs(steps - Math.round(steps)) < 1e-8
+}
+
+const roundToStep = (value: number, step: string, direction: 'down' | 'up'): string => {
+    const steps = toSteps(value, step)
+    const nearest = Math.round(steps)
+    const whole = Math.abs(steps - nearest) < 1e-8 ? nearest : (direction === 'down' ? Math.floor(steps) : Math.ceil(steps))
+    return (whole * parseFloat(step)).toFixed(countDecimals(step))
+}
+
+// Spot instrument rules from /api/v5/public/instruments, keyed by skl symbol
+export class OkxInstrumentCatalog {
+
+    private instruments: Map<string, OkxInstrument> = new Map()
+    private loading: Promise<void> | undefined
+
+    constructor(private restClient: OkxRestClient, private cachePath?: string) {}
+
+    public load(): Promise<void> {
+        const self = this
+        if (self.loading === undefined) {
+            self.loading = self.fetchInstruments().catch((error) => {
+                self.loading = undefined
+                throw error
+            })
+        }
+        return self.loading
+    }
+
+    public async getInstrument(symbol: string): Promise<OkxInstrument> {
+        await this.load()
+        const instrument = this.instruments.get(symbol)
+        if (instrument === undefined) {
+            throw new Error(`Unknown OKX spot instrument for ${symbol}`)
+        }
+        return instrument
+    }
+
+    public async getInstId(symbol: string): Promise<string> {
+        return (await this.getInstrument(symbol)).instId
+    }
+
+    // sizes are never rounded up, prices are rounded away from the spread so they never cross further
+    public normalizeOrder(instrument: OkxInstrument, side: Side, price: number | undefined, quantity: number, rounding: OkxOrderRounding): OkxNormalizedOrder {
+        const reasons: string[] = []
+        if (instrument.state !== 'live') {
+            reasons.push(`${instrument.instId} is ${instrument.state}`)
+        }
+
+        if (rounding === 'reject' && !isMultiple(quantity, instrument.lotSz)) {
+            reasons.push(`size ${quantity} is not a multiple of lot size ${instrument.lotSz}`)
+        }
+        const sz = roundToStep(quantity, instrument.lotSz, 'down')
+        if (parseFloat(sz) < parseFloat(instrument.minSz)) {
+            reasons.push(`size ${sz} is below minimum size ${instrument.minSz}`)
+        }
+
+        let px: string | undefined
+        if (price !== undefined) {
+            if (price <= 0) {
+                reasons.push(`price ${price} must be positive`)
+            } else if (rounding === 'reject' && !isMultiple(price, instrument.tickSz)) {
+                reasons.push(`price ${price} is not a multiple of tick size ${instrument.tickSz}`)
+            }
+            px = roundToStep(price, instrument.tickSz, side === 'Buy' ? 'down' : 'up')
+        }
+        return { px, sz, reasons }
+    }
+
+    private async fetchInstruments(): Promise<void> {
+        const self = this
+        let instruments: OkxInstrument[]
+        try {
+            instruments = await self.restClient.get<OkxInstrument>('/api/v5/public/instruments', { instType: 'SPOT' })
+            self.writeCache(instruments)
+        } catch (error) {
+            if (self.cachePath === undefined || !existsSync(self.cachePath)) {
+                throw error
+            }
+            logger.warn(`Loading instruments from ${self.cachePath}, fetch failed: ${error}`)
+            instruments = JSON.parse(readFileSync(self.cachePath, 'utf8')) as OkxInstrument[]
+        }
+        self.instruments.clear()
+        instruments.forEach((instrument: OkxInstrument) => {
+            self.instruments.set(`${instrument.baseCcy}-${instrument.quoteCcy}`, instrument)
+        })
+        logger.log(`Loaded ${instruments.length} spot instruments`)
+    }
+
+    private writeCache(instruments: OkxInstrument[]) {
+        if (this.cachePath === undefined) {
+            return
+        }
+        try {
+            mkdirSync(dirname(this.cachePath), { recursive: true })
+            writeFileSync(this.cachePath, JSON.stringify(instruments))
+        } catch (error) {
+            logger.warn(`Failed to write instrument cache ${this.cachePath}: ${error}`)
+        }
+    }
+}
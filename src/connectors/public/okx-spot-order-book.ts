@@ -0,0 +1,174 @@
+// [price, size, deprecated, number of orders]
+export type OkxBookLevel = [string, string, string, string]
+
+export interface OkxPriceLevel {
+    price: number;
+    size: number;
+    orders: number;
+    rawPrice: string;
+    rawSize: string;
+}
+
+export interface OkxBookDepth {
+    bids: OkxPriceLevel[];
+    asks: OkxPriceLevel[];
+}
+
+// ok also covers keep-alive pushes, which repeat the last seqId
+export type OkxSequenceCheck = 'ok' | 'duplicate' | 'gap' | 'reset'
+
+// OKX builds the checksum from the top 25 levels of each side
+const OkxChecksumDepth = 25
+
+const crcTable: number[] = (() => {
+    const table: number[] = []
+    for (let n = 0; n < 256; n++) {
+        let c = n
+        for (let k = 0; k < 8; k++) {
+            c = (c & 1) ? (0xEDB88320 ^ (c >>> 1)) : (c >>> 1)
+        }
+        table.push(c >>> 0)
+    }
+    return table
+})()
+
+// signed 32 bit crc32, the same representation OKX sends in the checksum field
+export const crc32 = (input: string): number => {
+    const bytes = Buffer.from(input, 'utf8')
+    let crc = 0xFFFFFFFF
+    for (let i = 0; i < bytes.length; i++) {
+        crc = crcTable[(crc ^ bytes[i]) & 0xFF] ^ (crc >>> 8)
+    }
+    return (crc ^ 0xFFFFFFFF) | 0
+}
+
+const toPriceLevel = (level: OkxBookLevel): OkxPriceLevel => {
+    return {
+        price: parseFloat(level[0]),
+        size: parseFloat(level[1]),
+        orders: parseInt(level[3] ?? '0'),
+        rawPrice: level[0],
+        rawSize: level[1],
+    }
+}
+
+export class OkxOrderBook {
+
+    // bids sorted descending, asks sorted ascending
+    private bids: OkxPriceLevel[] = []
+    private asks: OkxPriceLevel[] = []
+    public timestamp = 0
+    public isValid = false
+    // seqId of the last push applied, unknown after a REST snapshot
+    public seqId: number | undefined
+
+    constructor(public readonly instId: string, public readonly channel: string = 'books') {}
+
+    public applySnapshot(bids: OkxBookLevel[], asks: OkxBookLevel[], timestamp: number) {
+        const self = this
+        self.bids = bids.map(toPriceLevel).filter((level) => level.size > 0)
+        self.asks = asks.map(toPriceLevel).filter((level) => level.size > 0)
+        self.bids.sort((a, b) => b.price - a.price)
+        self.asks.sort((a, b) => a.price - b.price)
+        self.timestamp = timestamp
+        self.isValid = true
+    }
+
+    public applyUpdate(bids: OkxBookLevel[], asks: OkxBookLevel[], timestamp: number) {
+        const self = this
+        bids.forEach((level: OkxBookLevel) => self.updateLevel(self.bids, toPriceLevel(level), true))
+        asks.forEach((level: OkxBookLevel) => self.updateLevel(self.asks, toPriceLevel(level), false))
+        self.timestamp = timestamp
+    }
+
+    // an update continues the book when its prevSeqId is the last seqId applied
+    public checkSequence(prevSeqId: number, seqId: number): OkxSequenceCheck {
+        const self = this
+        if (self.seqId === undefined) {
+            return 'ok'
+        }
+        if (prevSeqId === self.seqId) {
+            // seqId starts again from a lower value after exchange maintenance
+            return seqId < prevSeqId ? 'reset' : 'ok'
+        }
+        if (seqId <= self.seqId && prevSeqId < self.seqId) {
+            return 'duplicate'
+        }
+        return 'gap'
+    }
+
+    public verifyChecksum(checksum: number): boolean {
+        return this.checksum() === checksum
+    }
+
+    public checksum(): number {
+        const self = this
+        const parts: string[] = []
+        for (let i = 0; i < OkxChecksumDepth; i++) {
+            const bid = self.bids[i]
+            const ask = self.asks[i]
+            if (bid) {
+                parts.push(`${bid.rawPrice}:${bid.rawSize}`)
+            }
+            if (ask) {
+                parts.push(`${ask.rawPrice}:${ask.rawSize}`)
+            }
+        }
+        return crc32(parts.join(':'))
+    }
+
+    public getDepth(levels: number): OkxBookDepth {
+        return {
+            bids: this.bids.slice(0, levels),
+            asks: this.asks.slice(0, levels),
+        }
+    }
+
+    public bestBid(): OkxPriceLevel | undefined {
+        return this.bids[0]
+    }
+
+    public bestAsk(): OkxPriceLevel | undefined {
+        return this.asks[0]
+    }
+
+    public clear() {
+        this.bids = []
+        this.asks = []
+        this.timestamp = 0
+        this.isValid = false
+        this.seqId = undefined
+    }
+
+    private updateLevel(levels: OkxPriceLevel[], level: OkxPriceLevel, descending: boolean) {
+        const index = this.findIndex(levels, level.price, descending)
+        const exists = index < levels.length && levels[index].price === level.price
+
+        // a zero size removes the price level
+        if (level.size === 0) {
+            if (exists) {
+                levels.splice(index, 1)
+            }
+        } else if (exists) {
+            levels[index] = level
+        } else {
+            levels.splice(index, 0, level)
+        }
+    }
+
+    // binary search for the position of a price, or where it would be inserted
+    private findIndex(levels: OkxPriceLevel[], price: number, descending: boolean): number {
+        let low = 0
+        let high = levels.length
+        while (low < high) {
+            const mid = (low + high) >>> 1
+            const before = descending ? levels[mid].price > price : levels[mid].price < price
+            if (before) {
+                low = mid + 1
+            } else {
+                high = mid
+            }
+        }
+        return low
+    }
+}
@@ -0,0 +1,148 @@
+import { OkxConnectionState, OkxWebsocketSession } from './okx-spot-websocket-session'
+import { createOkxApiError, OkxConnectionError, OkxRequestTimeoutError } from './okx-spot-errors'
+import { OkxOrderResultCodes } from './okx-spot'
+import { ConnectorMetrics } from '../../metrics/connector-metrics'
+
+export type OkxOrderOperation = 'order' | 'batch-orders' | 'cancel-order' | 'batch-cancel-orders' | 'amend-order' | 'batch-amend-orders'
+
+export interface OkxOrderArg {
+    instId: string;
+    side?: string;
+    tdMode?: string;
+    ordType?: string;
+    sz?: string;
+    px?: string;
+    clOrdId?: string;
+    // currency sz is given in, for market orders
+    tgtCcy?: 'base_ccy' | 'quote_ccy';
+    ordId?: string;
+    newSz?: string;
+    newPx?: string;
+    [key: string]: string | undefined;
+}
+
+export interface OkxPlaceOrderRequest {
+    id: string;
+    op: OkxOrderOperation;
+    args: OkxOrderArg[];
+}
+
+export interface OkxOrderResult {
+    clOrdId: string;
+    ordId: string;
+    tag: string;
+    sCode: string;
+    sMsg: string;
+}
+
+export interface OkxPlaceOrderResponse {
+    id: string;
+    op: OkxOrderOperation;
+    data: OkxOrderResult[];
+    code: string;
+    msg: string;
+    inTime: string;
+    outTime: string;
+}
+
+interface PendingRequest {
+    request: OkxPlaceOrderRequest;
+    resolve: (results: OkxOrderResult[]) => void;
+    reject: (error: Error) => void;
+    timer: NodeJS.Timeout;
+    sentAt: number;
+}
+
+// Sends order operations over the authenticated private websocket and matches
+// every OkxPlaceOrderResponse to its request by id.
+export class OkxOrderGateway {
+
+    private pendingRequests: Map<string, PendingRequest> = new Map()
+    private requestCount = 0
+
+    constructor(private session: OkxWebsocketSession, private timeout: number = 5000, private metrics?: ConnectorMetrics) {
+        const self = this
+        session.on('state', (state: OkxConnectionState) => {
+            if (state === 'closed') {
+                self.rejectAll(new OkxConnectionError('Private websocket closed before the exchange answered'))
+            }
+        })
+    }
+
+    public placeOrder(arg: OkxOrderArg): Promise<OkxOrderResult[]> {
+        return this.send('order', [arg])
+    }
+
+    public batchOrders(args: OkxOrderArg[]): Promise<OkxOrderResult[]> {
+        return this.send('batch-orders', args)
+    }
+
+    public cancelOrder(arg: OkxOrderArg): Promise<OkxOrderResult[]> {
+        return this.send('cancel-order', [arg])
+    }
+
+    public amendOrder(arg: OkxOrderArg): Promise<OkxOrderResult[]> {
+        return this.send('amend-order', [arg])
+    }
+
+    public batchCancelOrders(args: OkxOrderArg[]): Promise<OkxOrderResult[]> {
+        return this.send('batch-cancel-orders', args)
+    }
+
+    public batchAmendOrders(args: OkxOrderArg[]): Promise<OkxOrderResult[]> {
+        return this.send('batch-amend-orders', args)
+    }
+
+    public send(op: OkxOrderOperation, args: OkxOrderArg[]): Promise<OkxOrderResult[]> {
+        const self = this
+        const request: OkxPlaceOrderRequest = { id: `o${++self.requestCount}`, op, args }
+
+        return new Promise((resolve, reject) => {
+            if (!self.session.isReady()) {
+                reject(new OkxConnectionError(`Private websocket is ${self.session.state}, ${op} not sent`))
+                return
+            }
+            const timer = setTimeout(() => {
+                self.pendingRequests.delete(request.id)
+                reject(new OkxRequestTimeoutError(`No response to ${op} ${request.id} after ${self.timeout}ms`))
+            }, self.timeout)
+            self.pendingRequests.set(request.id, { request, resolve, reject, timer, sentAt: Date.now() })
+            if (!self.session.send(request)) {
+                clearTimeout(timer)
+                self.pendingRequests.delete(request.id)
+                reject(new OkxConnectionError(`Failed to send ${op} ${request.id}`))
+            }
+        })
+    }
+
+    // returns true when the message answered one of our requests
+    public handleResponse(message: any): boolean {
+        const self = this
+        if (message.id === undefined || message.op === undefined) {
+            return false
+        }
+        const pending = self.pendingRequests.get(message.id)
+        if (pending === undefined) {
+            return false
+        }
+        self.pendingRequests.delete(message.id)
+        clearTimeout(pending.timer)
+        self.metrics?.recordOrderRoundTrip(pending.request.op, Date.now() - pending.sentAt)
+
+        const response = message as OkxPlaceOrderResponse
+        if (OkxOrderResultCodes.includes(response.code) && response.data?.length > 0) {
+            pending.resolve(response.data)
+        } else {
+            pending.reject(createOkxApiError(response.code, `${response.op} ${response.id} failed: ${response.msg}`))
+        }
+        return true
+    }
+
+    public rejectAll(error: Error) {
+        this.pendingRequests.forEach((pending: PendingRequest) => {
+            clearTimeout(pending.timer)
+            pending.reject(error)
+        })
+        this.pendingRequests.clear()
+    }
+}
@@ -0,0 +1,470 @@
+import {
+    AmendOrdersRequest,
+    BalanceRequest,
+    BalanceResponse,
+    BatchOrdersRequest,
+    BookLevel,
+    CancelOrdersRequest,
+    ConnectorConfiguration,
+    ConnectorGroup,
+    OpenOrdersRequest,
+    Order,
+    OrderAmendment,
+    OrderBook,
+    OrderState,
+    OrderStatusUpdate,
+    OrderType,
+    PaperTradingConfiguration,
+    PrivateExchangeConnector,
+    Serializable,
+    Side,
+    TopOfBook,
+    Trade,
+} from '../../types';
+import { OrderStore, TrackedOrder } from '../../orders/order-store';
+import { getSklSymbol } from '../../util/config';
+import { Logger } from '../../util/logging';
+import { isImmediateOrderType, isMarketOrderType, OkxOrderTypeMap } from './okx-spot';
+import { OkxOrderResult } from './okx-spot-order-gateway';
+import { OKXSpotPublicConnector } from './okx-spot-public-connector';
+
+interface PaperOrder {
+    orderId: string;
+    sklOrderId: string;
+    side: Side;
+    type: OrderType;
+    price: number;
+    size: number;
+    filledSize: number;
+    filledNotional: number;
+    // funds frozen per unit of unfilled size, quote for buys and base for sells
+    reservedPerUnit: number;
+    state: OrderState;
+}
+
+interface PaperBalance {
+    total: number;
+    frozen: number;
+}
+
+type PaperLiquidity = 'maker' | 'taker'
+
+const PaperSizeTolerance = 1e-12
+
+const logger = Logger.getInstance('okx-spot-paper-connector')
+
+// Simulated private connector, orders are matched locally against the live OKX public feed
+export class OkxSpotPaperConnector implements PrivateExchangeConnector {
+
+    public publicConnector: OKXSpotPublicConnector
+    public orders: OrderStore = new OrderStore()
+    private openOrders: Map<string, PaperOrder> = new Map()
+    private balances: Map<string, PaperBalance> = new Map()
+    private topOfBook: TopOfBook | undefined
+    private depth: OrderBook | undefined
+    private sklSymbol: string
+    private settings: Required<PaperTradingConfiguration>
+    private onMessage: ((m: Serializable[]) => void) | undefined
+    private orderCount = 0
+
+    constructor(
+        private group: ConnectorGroup,
+        private config: ConnectorConfiguration,
+    ) {
+        const paperTrading = this.config.paperTrading ?? { balances: {} }
+        this.settings = {
+            balances: paperTrading.balances,
+            makerFee: paperTrading.makerFee ?? 0.0008,
+            takerFee: paperTrading.takerFee ?? 0.001,
+            latency: paperTrading.latency ?? 50,
+        }
+        this.sklSymbol = getSklSymbol(this.group, this.config)
+        Object.entries(this.settings.balances).forEach(([currency, amount]) => {
+            this.balances.set(currency, { total: amount, frozen: 0 })
+        })
+        this.publicConnector = new OKXSpotPublicConnector(this.group, {
+            ...this.config,
+            groups: [],
+            channels: ['trades', 'books'],
+            bookDepth: this.config.bookDepth ?? 20,
+        })
+    }
+
+    public async connect(onMessage: (m: Serializable[]) => void): Promise<any> {
+        const self = this
+        self.onMessage = onMessage
+        return await self.publicConnector.connect((messages: Serializable[]) => {
+            messages.forEach((message: Serializable) => self.onMarketData(message))
+        })
+    }
+
+    public async stop(): Promise<void> {
+        const self = this
+        try {
+            if (self.config.cancelOnStop !== false) {
+                await self.deleteAllOrders({
+                    symbol: self.sklSymbol,
+                    event: 'CancelOrdersRequest',
+                    timestamp: Date.now(),
+                    connectorType: 'Okx'
+                });
+            }
+            await self.publicConnector.stop()
+        } catch (error) {
+            logger.error('Error during stop operation:', error);
+        }
+    }
+
+    public async placeOrders(request: BatchOrdersRequest): Promise<OkxOrderResult[]> {
+        await this.simulateLatency()
+        return request.orders.map((order: Order) => this.acceptOrder(order))
+    }
+
+    // without ids every open order is cancelled, as on the live connector
+    public async deleteAllOrders(request: CancelOrdersRequest): Promise<void> {
+        const self = this
+        if (request.orderIds !== undefined || request.sklOrderIds !== undefined) {
+            await self.cancelOrders(request)
+            return
+        }
+        await self.simulateLatency()
+        Array.from(self.openOrders.values()).forEach((order: PaperOrder) => self.cancelOrder(order))
+    }
+
+    public async cancelOrders(request: CancelOrdersRequest): Promise<OkxOrderResult[]> {
+        const self = this
+        await self.simulateLatency()
+        const ids = [
+            ...(request.orderIds ?? []).map((orderId: string) => ({ orderId })),
+            ...(request.sklOrderIds ?? []).map((sklOrderId: string) => ({ sklOrderId })),
+        ]
+        return ids.map((id: { orderId?: string, sklOrderId?: string }) => {
+            const order = self.findOpenOrder(id.orderId, id.sklOrderId)
+            if (order === undefined) {
+                return { clOrdId: id.sklOrderId ?? '', ordId: id.orderId ?? '', tag: '', sCode: '51400', sMsg: 'order does not exist or is already closed' }
+            }
+            self.cancelOrder(order)
+            return { clOrdId: order.sklOrderId, ordId: order.orderId, tag: '', sCode: '0', sMsg: '' }
+        })
+    }
+
+    public async amendOrders(request: AmendOrdersRequest): Promise<OkxOrderResult[]> {
+        const self = this
+        await self.simulateLatency()
+        return request.amendments.map((amendment: OrderAmendment) => self.amendOrder(amendment))
+    }
+
+    public async getBalancePercentage(request: BalanceRequest): Promise<BalanceResponse> {
+        const baseVal = this.getBalance(this.group.name).total
+        const quoteValue = this.getBalance(this.config.quoteAsset).total
+        const baseValue = baseVal * request.lastPrice
+        const whole = baseValue + quoteValue
+
+        return {
+            event: "BalanceResponse",
+            symbol: this.sklSymbol,
+            baseBalance: baseVal,
+            quoteBalance: quoteValue,
+            inventory: whole > 0 ? (baseValue / whole) * 100 : 0,
+            timestamp: new Date().getTime()
+        };
+    }
+
+    // every paper order is for the connector's own symbol
+    public async getCurrentActiveOrders(request: OpenOrdersRequest): Promise<OrderStatusUpdate[]> {
+        if (request.symbol !== this.sklSymbol) {
+            return []
+        }
+        return Array.from(this.openOrders.values()).map((order: PaperOrder) => this.createOrderStatusUpdate(order))
+    }
+
+    public getOpenOrders(symbol: string = this.sklSymbol): TrackedOrder[] {
+        return this.orders.getOpenOrders(symbol)
+    }
+
+    private acceptOrder(order: Order): OkxOrderResult {
+        const self = this
+        const paperOrder: PaperOrder = {
+            orderId: `paper${++self.orderCount}`,
+            sklOrderId: order.sklOrderId ?? `paper${self.orderCount}`,
+            side: order.side,
+            type: order.type,
+            price: order.price,
+            size: order.quantity,
+            filledSize: 0,
+            filledNotional: 0,
+            reservedPerUnit: 0,
+            state: 'Placed',
+        }
+
+        const reason = self.validateOrder(paperOrder)
+        if (reason !== undefined) {
+            paperOrder.state = 'Rejected'
+            self.emit(paperOrder)
+            return { clOrdId: paperOrder.sklOrderId, ordId: paperOrder.orderId, tag: '', sCode: '51000', sMsg: reason }
+        }
+
+        self.reserve(paperOrder)
+        self.openOrders.set(paperOrder.orderId, paperOrder)
+        self.emit(paperOrder)
+        self.takeLiquidity(paperOrder)
+
+        // whatever market, IOC and FOK orders couldn't fill immediately is cancelled
+        if (self.openOrders.has(paperOrder.orderId) && isImmediateOrderType(paperOrder.type)) {
+            self.cancelOrder(paperOrder)
+        }
+        return { clOrdId: paperOrder.sklOrderId, ordId: paperOrder.orderId, tag: '', sCode: '0', sMsg: '' }
+    }
+
+    private validateOrder(order: PaperOrder, filledSize: number = 0): string | undefined {
+        if (OkxOrderTypeMap[order.type] === undefined) {
+            return `${order.type} orders are not supported on spot`
+        }
+        if (!(order.size > 0)) {
+            return `size ${order.size} must be positive`
+        }
+        if (!isMarketOrderType(order.type) && !(order.price > 0)) {
+            return `price ${order.price} must be positive`
+        }
+        if (isMarketOrderType(order.type) && this.topOfBook === undefined) {
+            return 'no market data to price a market order'
+        }
+        if (order.type === 'LimitMaker' && this.isMarketable(order)) {
+            return 'post only order would take liquidity'
+        }
+        const available = this.getAvailable(order)
+        if (available < this.getReservation(order) * (order.size - filledSize) - PaperSizeTolerance) {
+            return 'insufficient balance'
+        }
+        return undefined
+    }
+
+    private isMarketable(order: PaperOrder): boolean {
+        const topOfBook = this.topOfBook
+        if (topOfBook === undefined) {
+            return false
+        }
+        if (isMarketOrderType(order.type)) {
+            return true
+        }
+        return order.side === 'Buy' ? topOfBook.askPrice <= order.price : topOfBook.bidPrice >= order.price
+    }
+
+    // market buys are reserved at what walking the book for their size costs, the unused part is released as they fill
+    private getReservation(order: PaperOrder): number {
+        if (order.side === 'Sell') {
+            return 1
+        }
+        return isMarketOrderType(order.type) ? this.getSweepPrice(order) : order.price
+    }
+
+    // average price of taking the unfilled size from the book, size beyond the visible depth is priced at its last level
+    private getSweepPrice(order: PaperOrder): number {
+        const levels: BookLevel[] = this.getCrossedLevels(order)
+        const size = order.size - order.filledSize
+        let remaining = size
+        let cost = 0
+        for (const level of levels) {
+            const taken = Math.min(remaining, level.size)
+            cost += taken * level.price
+            remaining -= taken
+            if (remaining <= PaperSizeTolerance) {
+                break
+            }
+        }
+        cost += Math.max(remaining, 0) * (levels[levels.length - 1]?.price ?? 0)
+        return cost / size
+    }
+
+    private getAvailable(order: PaperOrder): number {
+        const balance = this.getBalance(order.side === 'Buy' ? this.config.quoteAsset : this.group.name)
+        return balance.total - balance.frozen
+    }
+
+    private reserve(order: PaperOrder) {
+        order.reservedPerUnit = this.getReservation(order)
+        this.getReservedBalance(order).frozen += order.reservedPerUnit * order.size
+    }
+
+    private getReservedBalance(order: PaperOrder): PaperBalance {
+        return this.getBalance(order.side === 'Buy' ? this.config.quoteAsset : this.group.name)
+    }
+
+    private getBalance(currency: string): PaperBalance {
+        let balance = this.balances.get(currency)
+        if (balance === undefined) {
+            balance = { total: 0, frozen: 0 }
+            this.balances.set(currency, balance)
+        }
+        return balance
+    }
+
+    private takeLiquidity(order: PaperOrder) {
+        const self = this
+        if (!self.isMarketable(order)) {
+            return
+        }
+        const levels: BookLevel[] = self.getCrossedLevels(order)
+        // fill or kill orders only trade if the whole size is available
+        const available = levels.reduce((total: number, level: BookLevel) => total + level.size, 0)
+        if (order.type === 'FillOrKill' && available < order.size - PaperSizeTolerance) {
+            return
+        }
+
+        for (const level of levels) {
+            const remaining = order.size - order.filledSize
+            if (remaining <= PaperSizeTolerance) {
+                break
+            }
+            self.fill(order, level.price, Math.min(remaining, level.size), 'taker')
+        }
+    }
+
+    private getCrossedLevels(order: PaperOrder): BookLevel[] {
+        const self = this
+        const levels: BookLevel[] = order.side === 'Buy'
+            ? (self.depth?.asks ?? [{ price: self.topOfBook!.askPrice, size: self.topOfBook!.askSize }])
+            : (self.depth?.bids ?? [{ price: self.topOfBook!.bidPrice, size: self.topOfBook!.bidSize }])
+        const crossing = levels.findIndex((level: BookLevel) => {
+            return !isMarketOrderType(order.type) && (order.side === 'Buy' ? level.price > order.price : level.price < order.price)
+        })
+        return crossing === -1 ? levels : levels.slice(0, crossing)
+    }
+
+    private onMarketData(message: Serializable) {
+        const self = this
+        if (message.symbol !== self.sklSymbol) {
+            return
+        }
+        if (message.event === 'TopOfBook') {
+            self.topOfBook = message
+            // the book moved through a resting order, someone traded with it at our price
+            Array.from(self.openOrders.values())
+                .filter((order: PaperOrder) => order.side === 'Buy' ? message.askPrice <= order.price : message.bidPrice >= order.price)
+                .forEach((order: PaperOrder) => self.fill(order, order.price, order.size - order.filledSize, 'maker'))
+        } else if (message.event === 'OrderBook') {
+            self.depth = message
+        } else if (message.event === 'BookInvalidated') {
+            // nothing is matched against a book that can't be trusted
+            self.topOfBook = undefined
+            self.depth = undefined
+        } else if (message.event === 'Trade') {
+            self.onTrade(message)
+        }
+    }
+
+    // only trades printing through our price fill us, queue position at the price is unknown
+    private onTrade(trade: Trade) {
+        const self = this
+        let available = trade.size
+        Array.from(self.openOrders.values())
+            .filter((order: PaperOrder) => order.side === 'Buy' ? trade.price < order.price : trade.price > order.price)
+            .forEach((order: PaperOrder) => {
+                const size = Math.min(available, order.size - order.filledSize)
+                if (size > PaperSizeTolerance) {
+                    available -= size
+                    self.fill(order, order.price, size, 'maker')
+                }
+            })
+    }
+
+    private fill(order: PaperOrder, price: number, size: number, liquidity: PaperLiquidity) {
+        const self = this
+        const fee = liquidity === 'maker' ? self.settings.makerFee : self.settings.takerFee
+        const base = self.getBalance(self.group.name)
+        const quote = self.getBalance(self.config.quoteAsset)
+        const reserved = self.getReservedBalance(order)
+
+        // fees are charged in the currency received, as on OKX spot
+        reserved.frozen -= order.reservedPerUnit * size
+        if (order.side === 'Buy') {
+            quote.total -= price * size
+            base.total += size * (1 - fee)
+        } else {
+            base.total -= size
+            quote.total += price * size * (1 - fee)
+        }
+
+        order.filledSize += size
+        order.filledNotional += price * size
+        if (order.size - order.filledSize <= PaperSizeTolerance) {
+            order.state = 'Filled'
+            self.openOrders.delete(order.orderId)
+        } else {
+            order.state = 'PartiallyFilled'
+        }
+        self.emit(order)
+    }
+
+    // the reservation is redone for the new price and size, a failed amendment leaves the order unchanged
+    private amendOrder(amendment: OrderAmendment): OkxOrderResult {
+        const self = this
+        const order = self.findOpenOrder(amendment.orderId, amendment.sklOrderId)
+        if (order === undefined) {
+            return { clOrdId: amendment.sklOrderId ?? '', ordId: amendment.orderId ?? '', tag: '', sCode: '51503', sMsg: 'order does not exist or is already closed' }
+        }
+        const reject = (reason: string) => ({ clOrdId: order.sklOrderId, ordId: order.orderId, tag: '', sCode: '51000', sMsg: reason })
+        const amended: PaperOrder = { ...order, price: amendment.price ?? order.price, size: amendment.quantity ?? order.size }
+        if (amended.size <= order.filledSize) {
+            return reject(`size ${amended.size} must be above the filled size ${order.filledSize}`)
+        }
+
+        const reserved = self.getReservedBalance(order)
+        reserved.frozen -= order.reservedPerUnit * (order.size - order.filledSize)
+        const reason = self.validateOrder(amended, order.filledSize)
+        if (reason !== undefined) {
+            reserved.frozen += order.reservedPerUnit * (order.size - order.filledSize)
+            return reject(reason)
+        }
+        order.price = amended.price
+        order.size = amended.size
+        order.reservedPerUnit = self.getReservation(order)
+        reserved.frozen += order.reservedPerUnit * (order.size - order.filledSize)
+        self.emit(order)
+        self.takeLiquidity(order)
+        return { clOrdId: order.sklOrderId, ordId: order.orderId, tag: '', sCode: '0', sMsg: '' }
+    }
+
+    private findOpenOrder(orderId?: string, sklOrderId?: string): PaperOrder | undefined {
+        return Array.from(this.openOrders.values())
+            .find((order: PaperOrder) => order.orderId === orderId || (orderId === undefined && order.sklOrderId === sklOrderId))
+    }
+
+    private cancelOrder(order: PaperOrder) {
+        const remaining = order.size - order.filledSize
+        this.getReservedBalance(order).frozen -= order.reservedPerUnit * remaining
+        order.state = 'Cancelled'
+        this.openOrders.delete(order.orderId)
+        this.emit(order)
+    }
+
+    private emit(order: PaperOrder) {
+        const update = this.createOrderStatusUpdate(order)
+        const result = this.orders.apply(update)
+        if (this.onMessage && result !== null) {
+            this.onMessage(result.fill ? [update, result.fill] : [update])
+        }
+    }
+
+    private createOrderStatusUpdate(order: PaperOrder): OrderStatusUpdate {
+        return {
+            symbol: this.sklSymbol,
+            connectorType: 'Okx',
+            event: 'OrderStatusUpdate',
+            state: order.state,
+            orderId: order.orderId,
+            sklOrderId: order.sklOrderId,
+            side: order.side,
+            price: order.price,
+            size: order.size,
+            notional: order.price * order.size,
+            filled_price: order.filledSize > 0 ? order.filledNotional / order.filledSize : 0,
+            filled_size: order.filledSize,
+            timestamp: Date.now(),
+        }
+    }
+
+    private simulateLatency(): Promise<void> {
+        return new Promise((resolve) => setTimeout(resolve, this.settings.latency))
+    }
+}
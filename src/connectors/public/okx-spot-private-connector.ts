@@ -1,15 +1,18 @@
-import axios from 'axios';
-import { WebSocket } from 'ws';
-import CryptoJS from 'crypto-js';
 import {
+  AmendOrdersRequest,
   BalanceRequest,
   BalanceResponse,
+  BalanceUpdate,
   BatchOrdersRequest,
   CancelOrdersRequest,
   ConnectorConfiguration,
   ConnectorGroup,
   Credential,
+  CredentialProvider,
   OpenOrdersRequest,
+  Order,
+  OrderAmendment,
+  OrderFill,
   OrderState,
   OrderStatusUpdate,
   PrivateExchangeConnector,
@@ -17,103 +20,85 @@ import {
   Side,
   SklEvent,
 } from '../../types';
-import { getOkxSymbol } from "./okx-spot";
+import { createOkxLoginMessage, getOkxClientOrderId, getOkxMessageTime, getOkxSymbol, isMarketOrderType, OkxInvertedSideMap, OkxOrderTypeMap, OkxSideMap } from "./okx-spot";
+import { OkxOrderValidationError } from './okx-spot-errors';
+import { getOkxEndpoints } from './okx-spot-environments';
+import { OkxInstrumentCatalog } from './okx-spot-instruments';
+import { OkxOrderArg, OkxOrderGateway, OkxOrderOperation, OkxOrderResult } from './okx-spot-order-gateway';
+import { OkxRestClient } from './okx-spot-rest-client';
+import { OkxSubscriptionRegistry } from './okx-spot-subscriptions';
+import { OkxConnectionState, OkxWebsocketSession } from './okx-spot-websocket-session';
+import { OKXSpotPublicConnector } from './okx-spot-public-connector';
+import { OrderStore, TrackedOrder } from '../../orders/order-store';
+import { RiskDecision, RiskGate } from '../../orders/risk-gate';
+import { FillLedger } from '../../orders/fill-ledger';
+import { ConnectorMetrics } from '../../metrics/connector-metrics';
 import { Logger } from '../../util/logging';
 import { getSklSymbol } from '../../util/config';
-import * as jwt from 'jsonwebtoken';
-import * as crypto from 'crypto';
+import { toCredentialProvider } from '../../util/credentials';
 const logger = Logger.getInstance('okx-spot-private-connector')
 
 interface OkxEvent {
-    event: string,
-    channel: string,
+    event?: string,
+    arg?: { channel: string, instType?: string, instId?: string },
+    code?: string,
+    msg?: string,
     timestamp: string,
-    sequence_num: number,
-    data: OkxOpenOrderResponse[] | OkxOrderStatusEvent[],
+    // the shape follows arg.channel
+    data: OkxOrder[] | OkxFill[] | OkxAccountBalance[] | OkxBalanceAndPosition[],
 }
 
-
-export interface OkxPlaceOrderRequest {
-    id: string;
-    op: string;
-    args: Array<{
-      side: string;
-      instId: string;
-      tdMode: string;
-      ordType: string;
-      sz: number;
-    }>;
-}
-  
-export interface OkxPlaceOrderResponse {
-    id: string;
-    op: string;
-    data: Array<{
-      clOrdId: string;
-      ordId: string;
-      tag: string;
-      sCode: string;
-      sMsg: string;
-    }>;
-    code: string;
-    msg: string;
-    inTime: string;
-    outTime: string;
+interface OkxOrder {
+  instId: string;
+  ordId: string;
+  clOrdId: string;
+  state: string;
+  side: string;
+  ordType: string;
+  px: string;
+  sz: string;
+  avgPx: string;
+  accFillSz: string;
+  // the execution this push reports, if any
+  fillPx?: string;
+  fillSz?: string;
+  fillFee?: string;
+  fillFeeCcy?: string;
+  tradeId?: string;
+  cTime: string;
+  uTime: string;
 }
-  
-
 
-interface OkxOpenOrderResponse {
-  type: string;
-  orders: OkxOpenOrder[];
+interface OkxFill {
+  instId: string;
+  ordId: string;
+  tradeId: string;
+  side: string;
+  fillPx: string;
+  fillSz: string;
+  ts: string;
 }
 
-interface OkxOrderStatusEvent {
-  orders: OkxOrderStatus[];
-  sequence: string;
-  has_next: boolean;
-  cursor: string;
+interface OkxBalanceDetail {
+  ccy: string;
+  uTime?: string;
+  cashBal: string;
+  frozenBal: string;
+  availBal: string;
+  eq: string;
 }
 
-interface OkxOrderStatus {
-  order_id: string,
-  client_order_id: string,
-  cumulative_quantity: string,
-  leaves_quantity: string,
-  avg_price: string,
-  total_fees: string,
-  status: string,
-  product_id: string,
-  creation_time: string,
-  order_side: string,
-  order_type: string,
-  cancel_reason: string,
-  reject_Reason: string,
+interface OkxAccountBalance {
+  uTime: string;
+  totalEq: string;
+  details: OkxBalanceDetail[];
 }
 
-interface OkxOpenOrder {
-  order_id: string;
-  product_id: string;
-  user_id: string;
-  side: string;
-  client_order_id: string;
-  status: string;
-  time_in_force: string;
-  created_time: string;
-  filled_size: string;
-  average_filled_price: string;
-  fee: string;
-  number_of_fills: string;
-  filled_value: string;
-  total_fees: string;
-  order_configuration: {
-    limit_limit_gtc: {
-      post_only: boolean;
-      end_time: string;
-      base_size: string;
-      limit_price: string;
-    }
-  }
+// balance_and_position pushes only carry the cash balance
+interface OkxBalanceAndPosition {
+  pTime: string;
+  eventType: string;
+  balData: { ccy: string, cashBal: string, uTime: string }[];
 }
 
 const OkxWebsocketOrderUpdateStateMap: { [key: string]: OrderState } = {
@@ -121,6 +106,8 @@ const OkxWebsocketOrderUpdateStateMap: { [key: string]: OrderState } = {
     'filled': 'Filled',
     'partially_filled': 'PartiallyFilled',
     'canceled': 'Cancelled',
+    // cancelled by market maker protection
+    'mmp_canceled': 'Cancelled',
 };
 
 const OkxOpenOrdersStateMap: { [key: string]: OrderState } = {
@@ -128,186 +115,282 @@ const OkxOpenOrdersStateMap: { [key: string]: OrderState } = {
     'partially_filled': 'PartiallyFilled',
 };
 
-const OkxOrderTypeMap: { [key: string]: OkxOrderType } = {
-    'Limit': 'limit',
-    'Market': 'market',
-    'LimitMaker': 'post_only',
-    'ImmediateOrCancel': 'ioc'
-};
-
-type OkxSide = 'BUY' | 'SELL'
-const invertedSideMap: { [key: string]: OkxSide } = {
-    'Buy': 'BUY',
-    'Sell': 'SELL'
-}
-
-const getEventType = (message: OkxEvent): SklEvent | null => {
-    if (message.channel === 'user') {
-        return 'OrderStatusUpdate'
-    }
-    return null
-}
+// spot orders trade from the cash balance, without margin
+const OkxSpotTradeMode = 'cash'
 
 export class OkxSpotPrivateConnector implements PrivateExchangeConnector {
-    public privateWebsocketAddress = 'wss://wseea.okx.com:8443/ws/v5/private';
-    public restUrl = 'http://www.okx.com';
-    public privateWebsocketFeed: any
+    public privateWebsocketAddress: string
+    public restUrl: string
+    public privateWebsocketFeed: OkxWebsocketSession
+    public orders: OrderStore = new OrderStore()
+    public riskGate: RiskGate
+    public ledger: FillLedger
+    public metrics: ConnectorMetrics
+    // TopOfBook for the risk checks and PnL marks, only connected when prices are needed
+    public marketData: OKXSpotPublicConnector | undefined
+    // last balance seen per currency
+    private balances: Map<string, BalanceUpdate> = new Map()
+    private onMessage: ((m: Serializable[]) => void) | undefined
     private okxSymbol: string
     private sklSymbol: string
-    private pingInterval: any
+    private subscriptions: OkxSubscriptionRegistry = new OkxSubscriptionRegistry()
+    private orderGateway: OkxOrderGateway
+    private restClient: OkxRestClient
+    private instruments: OkxInstrumentCatalog
+    private pnlTimer: NodeJS.Timeout | undefined
+    // clOrdId -> sklOrderId for orders whose sklOrderId isn't a valid clOrdId
+    private sklOrderIds: Map<string, string> = new Map()
+    private credentials: CredentialProvider
 
 
     constructor(
         private group: ConnectorGroup,
         private config: ConnectorConfiguration,
-        private credential: Credential,
+        credential: Credential | CredentialProvider,
     ) {
-        const self = this
-        self.okxSymbol = getOkxSymbol(self.group, self.config)
-        self.sklSymbol = getSklSymbol(self.group, self.config)
+        this.okxSymbol = getOkxSymbol(this.group, this.config)
+        this.sklSymbol = getSklSymbol(this.group, this.config)
+        this.metrics = new ConnectorMetrics('okx-spot-private', this.sklSymbol, this.config.metrics)
+        this.credentials = toCredentialProvider(credential, 'config')
+        const endpoints = getOkxEndpoints(this.config)
+        this.privateWebsocketAddress = endpoints.privateWebsocket
+        this.restUrl = endpoints.rest
+        this.subscriptions.add(this.sklSymbol, [
+            { channel: 'orders', instType: 'SPOT' },
+            { channel: 'account' },
+            { channel: 'balance_and_position' },
+        ])
+        if (this.config.fillsChannel) {
+            this.subscriptions.add(this.sklSymbol, [{ channel: 'fills' }])
+        }
+        this.privateWebsocketFeed = new OkxWebsocketSession({
+            name: 'okx-spot-private-session',
+            url: this.privateWebsocketAddress,
+            subscriptions: this.subscriptions,
+            login: () => createOkxLoginMessage(this.credentials.getCredential()),
+        })
+        this.orderGateway = new OkxOrderGateway(this.privateWebsocketFeed, undefined, this.metrics)
+        // the open session stays logged in with the old key, log in again with the new one
+        this.credentials.onRotate(() => {
+            logger.log('Credential rotated, reconnecting the private websocket')
+            this.privateWebsocketFeed.reconnect()
+        })
+        this.restClient = new OkxRestClient({ baseUrl: this.restUrl, credentials: this.credentials, simulated: endpoints.simulated, metrics: this.metrics })
+        this.instruments = new OkxInstrumentCatalog(this.restClient, this.config.instrumentCachePath)
+        this.riskGate = new RiskGate(this.config.risk ?? {})
+        this.ledger = new FillLedger(this.config.quoteAsset)
+        if (this.riskGate.needsMarketData() || this.config.pnlInterval !== undefined) {
+            this.marketData = new OKXSpotPublicConnector(this.group, {
+                ...this.config,
+                groups: [],
+                channels: ['books'],
+                bookDepth: undefined,
+                candleIntervals: undefined,
+                recording: undefined,
+                // the order book feed only serves the risk checks and PnL marks
+                metrics: undefined,
+            })
+        }
     }
 
     public async connect(onMessage: (m: Serializable[]) => void): Promise<any> {
         const self = this
-        //const listenKey = await this.getListenKey();
-
-        const privateFeed = new Promise(async (resolve) => {
-        
-        const url = self.privateWebsocketAddress;
-        self.privateWebsocketFeed = new WebSocket(url);
-        
-        self.privateWebsocketFeed.on('open', () => {
-            self.startPingInterval();
-            self.authenticate()
-            self.subscribeToPrivateChannels();
-        });
+        self.onMessage = onMessage
 
-        self.privateWebsocketFeed.onmessage = (message: any) => {
+        self.privateWebsocketFeed.on('state', (state: OkxConnectionState, previous: OkxConnectionState) => {
+            // recovering from degraded is not a new login
+            if (state === 'authenticated' && previous === 'open') {
+                self.reconcile();
+            }
+            if (state === 'connecting' && self.privateWebsocketFeed.reconnectCount > 0) {
+                self.metrics.recordReconnect('private')
+            }
+        })
+        self.metrics.start()
 
-            const OkxEvent: OkxEvent = JSON.parse(message.data) as OkxEvent
-            logger.log(`Private websocket message: ${message.data}`)
-            const actionType: SklEvent | null = getEventType(OkxEvent)
+        self.privateWebsocketFeed.on('message', (OkxEvent: OkxEvent) => {
+            if (self.orderGateway.handleResponse(OkxEvent)) {
+                return
+            }
+            const actionType: SklEvent | null = self.getEventType(OkxEvent)
             if (actionType) {
-                const serializableMessages: Serializable[] = self.createSklEvent(actionType, OkxEvent, self.group)
+                const channel = OkxEvent.arg!.channel
+                self.metrics.recordMessage(channel, getOkxMessageTime(OkxEvent.data))
+                const serializableMessages: Serializable[] = self.metrics.measure(channel, () => self.createSklEvent(actionType, OkxEvent, self.group))
                 onMessage(serializableMessages);
             } else {
-                logger.log(`No handler for message: ${JSON.stringify(OkxEvent)}`)
+                // account pushes carry balances and positions, only what the message is gets logged
+                logger.log(`No handler for ${OkxEvent.event ?? 'message'} on ${OkxEvent.arg?.channel ?? 'no channel'}`)
             }
-        }
-
-        self.privateWebsocketFeed.on('error', function error(err: any) {
-            logger.log(`WebSocket error: ${err.toString()}`);
-        });
-
-        self.privateWebsocketFeed.on('close', (code, reason) => {
-            const self = this
-            logger.log(`WebSocket closed: ${code} - ${reason}`);
-            self.stopPingInterval();
-            setTimeout(() => {
-                this.connect(onMessage);
-            }, 1000);
-        });
         })
 
-        return await Promise.all([privateFeed]);
-    }
-
-    private async authenticate(): Promise<void> {
-        const self = this
-        const timestamp = Date.now();
-        const method = 'GET';
-        const requestPath = '/users/self/verify';
-        const sign = CryptoJS.enc.Base64.stringify(CryptoJS.HmacSHA256(`${timestamp}${method}${requestPath}`, self.credential.secret));
-        
-        const authMessage = JSON.stringify({
-            op: 'login',
-            args: [{
-                apiKey: this.credential.key,
-                passphrase: this.credential.passphrase,
-                timestamp,
-                sign
-            }]
+        await self.instruments.load();
+        const marketData = self.marketData?.connect((messages: Serializable[]) => {
+            messages.forEach((message: Serializable) => {
+                self.riskGate.update(message)
+                self.ledger.update(message)
+            })
         });
-        this.privateWebsocketFeed.send(JSON.stringify(authMessage));
+        if (self.config.pnlInterval !== undefined) {
+            self.pnlTimer = setInterval(() => {
+                const updates = self.ledger.getAllPnl()
+                if (updates.length > 0) {
+                    onMessage(updates)
+                }
+            }, self.config.pnlInterval)
+        }
+        return await Promise.all([self.privateWebsocketFeed.start(), marketData]);
     }
 
-    private subscribeToPrivateChannels(): void {
-        const channels = [
-            { channel: 'orders', instId: 'ANY' },
-            { channel: 'account', instId: 'ANY' },
-            ];
-        const subscriptionMessage = {
-            op: 'subscribe',
-            args: channels
-            };
-            this.privateWebsocketFeed.send(JSON.stringify(subscriptionMessage));
+    // order responses wait as well while paused, long pauses time order operations out
+    public pause() {
+        this.privateWebsocketFeed.pause()
     }
 
-    private unsubscribeFromPrivateChannels() {
-        const channels = [
-            { channel: 'orders', instId: 'ANY' },
-            { channel: 'account', instId: 'ANY' },
-        ];
-        const subscriptionMessage = {
-            op: 'unsubscribe',
-            args: channels
-        };
-        this.privateWebsocketFeed.send(JSON.stringify(subscriptionMessage));
+    public resume() {
+        this.privateWebsocketFeed.resume()
     }
 
     public async stop(): Promise<void> {
         const self = this
         try {
-            self.unsubscribeFromPrivateChannels();
-            clearInterval(self.pingInterval);
-            await self.deleteAllOrders({
-                symbol: self.sklSymbol,
-                event: 'CancelOrdersRequest',
-                timestamp: Date.now(),
-                connectorType: 'Okx'
-            });
-            self.stopPingInterval();
-            self.privateWebsocketFeed.close();
+            clearInterval(self.pnlTimer);
+            self.privateWebsocketFeed.unsubscribe(self.subscriptions.args());
+            if (self.config.cancelOnStop !== false) {
+                await self.deleteAllOrders({
+                    symbol: self.sklSymbol,
+                    event: 'CancelOrdersRequest',
+                    timestamp: Date.now(),
+                    connectorType: 'Okx'
+                });
+            }
+            self.privateWebsocketFeed.stop();
+            await self.marketData?.stop();
+            self.metrics.stop();
         } catch (error){
             logger.error('Error during stop operation:', error);
         }
     }
   
-    public async placeOrders(request: BatchOrdersRequest): Promise<any> {
-        const OkxMaxBatchSize = 20; // Example limit
-        //example order for dev
-        const side = invertedSideMap[order.side];
-        const instId = "BTC-USDT";
-        const tdMode = "cash";
-        const ordType = "market";
-        const orderId = `skl:${Date.now()}_${Math.floor(Math.random() * 1000000)}`;
-        //Map Orders
-        const orders = request.orders.map(order => {
-            return {
-                id: orderId,
-                op: "order",
-                args: [{
-                    side: side,
-                    instId: instId,
-                    tdMode: tdMode,
-                    ordType: ordType,
-                    sz: order.quantity.toFixed(8),
-                }]
+    public async placeOrders(request: BatchOrdersRequest): Promise<OkxOrderResult[]> {
+        const self = this
+        const OkxMaxBatchSize = 20;
+        const instrument = await self.instruments.getInstrument(self.sklSymbol);
+        const rounding = self.config.orderRounding ?? 'round';
+        const rejections: string[] = [];
+        const args: Map<Order, OkxOrderArg> = new Map();
+        request.orders.forEach((order: Order, index: number) => {
+            const price = isMarketOrderType(order.type) ? undefined : order.price;
+            const normalized = self.instruments.normalizeOrder(instrument, order.side, price, order.quantity, rounding);
+            normalized.reasons.forEach((reason: string) => rejections.push(`order ${order.sklOrderId ?? index}: ${reason}`));
+            const ordType = OkxOrderTypeMap[order.type];
+            if (ordType === undefined) {
+                rejections.push(`order ${order.sklOrderId ?? index}: ${order.type} orders are not supported on spot`);
+            }
+            const arg: OkxOrderArg = {
+                side: OkxInvertedSideMap[order.side],
+                instId: instrument.instId,
+                tdMode: OkxSpotTradeMode,
+                ordType,
+                sz: normalized.sz,
+                px: normalized.px,
+                clOrdId: self.getClientOrderId(order.sklOrderId),
             };
+            // OKX sizes spot market buys in the quote currency by default, ours are sized in the base currency
+            if (order.type === 'Market' && order.side === 'Buy') {
+                arg.tgtCcy = 'base_ccy';
+            }
+            args.set(order, arg);
         });
+
+        if (rejections.length > 0) {
+            throw new OkxOrderValidationError(`Rejected ${request.orders.length} orders for ${instrument.instId}`, rejections);
+        }
+
+        // checked after validation, so orders that are never sent don't use up the rate or open order limits
+        const orders: OkxOrderArg[] = self.applyRiskChecks(request.orders).map((order: Order) => args.get(order)!);
+        if (orders.length === 0) {
+            return [];
+        }
     
-        const batches = this.chunkArray(orders, OkxMaxBatchSize);
+        const batches: OkxOrderArg[][] = self.chunkArray(orders, OkxMaxBatchSize);
+        const results = await Promise.all(batches.map((batch: OkxOrderArg[]) => {
+            return batch.length === 1 ? self.orderGateway.placeOrder(batch[0]) : self.orderGateway.batchOrders(batch);
+        }));
+        return results.flat();
+    }
     
-        const promises = batches.map(batch => {
-            //set dynamic endpoint
-            const endpoint = '/account/balance?ccy=BTC'
-            return this.postRequest(endpoint, { batchOrders: JSON.stringify(batch) });
+    private getClientOrderId(sklOrderId: string | undefined): string {
+        const self = this
+        if (sklOrderId === undefined) {
+            return `skl${Date.now()}${Math.floor(Math.random() * 1000000)}`;
+        }
+        const clOrdId = getOkxClientOrderId(sklOrderId);
+        if (clOrdId !== sklOrderId) {
+            self.sklOrderIds.set(clOrdId, sklOrderId);
+        }
+        return clOrdId;
+    }
+
+    // rejected orders are reported as Rejected OrderStatusUpdate events and never sent
+    private applyRiskChecks(orders: Order[]): Order[] {
+        const self = this
+        const base = self.balances.get(self.group.name)
+        const quote = self.balances.get(self.config.quoteAsset)
+        const decisions = self.riskGate.check(orders, {
+            symbol: self.sklSymbol,
+            openOrders: self.getOpenOrders().length,
+            baseBalance: base?.cash ?? 0,
+            quoteBalance: quote?.cash ?? 0,
         });
-    
-        const results = await Promise.all(promises);
-        return results;
+        const rejections: OrderStatusUpdate[] = decisions
+            .filter((decision: RiskDecision) => decision.reason !== undefined)
+            .map((decision: RiskDecision) => self.createRiskRejection(decision));
+        if (rejections.length > 0 && self.onMessage) {
+            self.onMessage(rejections);
+        }
+        return decisions
+            .filter((decision: RiskDecision) => decision.reason === undefined)
+            .map((decision: RiskDecision) => decision.order);
     }
-    
+
+    private createRiskRejection(decision: RiskDecision): OrderStatusUpdate {
+        const order = decision.order
+        return {
+            symbol: this.sklSymbol,
+            connectorType: 'Okx',
+            event: 'OrderStatusUpdate',
+            state: 'Rejected',
+            orderId: '',
+            sklOrderId: order.sklOrderId ?? '',
+            side: order.side,
+            price: order.price,
+            size: order.quantity,
+            notional: order.price * order.quantity,
+            filled_price: 0,
+            filled_size: 0,
+            reason: decision.reason,
+            timestamp: Date.now(),
+        };
+    }
+
+    // blocks every new order until released, and cancels every live order the exchange lists,
+    // including ones this process hasn't tracked
+    public async activateKillSwitch(reason: string): Promise<void> {
+        const self = this
+        self.riskGate.kill(reason);
+        await self.deleteAllOrders({
+            symbol: self.sklSymbol,
+            event: 'CancelOrdersRequest',
+            timestamp: Date.now(),
+            connectorType: 'Okx',
+        });
+    }
+
+    public releaseKillSwitch() {
+        this.riskGate.release();
+    }
+
     private chunkArray(array: any[], chunkSize: number): any[] {
         const results = [];
         for (let i = 0; i < array.length; i += chunkSize) {
@@ -316,126 +399,124 @@ export class OkxSpotPrivateConnector implements PrivateExchangeConnector {
         return results;
     }
     
-    private async postRequest(endpoint: string, params: any): Promise<any> {
+    // without ids every live order of the symbol is looked up first, then cancelled 20 at a time
+    public async deleteAllOrders(request: CancelOrdersRequest): Promise<void> {
         const self = this
-        const timestamp = Date.now() / 1000;
-        const method = 'POST';
-        const requestPath = `/api/v5${endpoint}`;
-        
-        const body = JSON.stringify(params);
-
-        const sign = CryptoJS.enc.Base64.stringify(CryptoJS.HmacSHA256(`${timestamp}${method}${requestPath}${body}`, this.credential.secret));
-
-        const headers = {
-            'OK-ACCESS-KEY': self.credential.key,
-            'OK-ACCESS-SIGN': sign,
-            'OK-ACCESS-TIMESTAMP': timestamp.toString(),
-            'OK-ACCESS-PASSPHRASE': self.credential.passphrase,
-            'Content-Type': 'application/json'
-        };
-
+        logger.log('DeleteAllOrders Process Initiated');
         try {
-            const result = await self.axios.post(`${self.restUrl}${requestPath}`, body, { headers });
-            return result.data;
+            let cancelRequest = request;
+            if (request.orderIds === undefined && request.sklOrderIds === undefined) {
+                const live = await self.getLiveOrders(request.symbol ?? self.sklSymbol);
+                cancelRequest = { ...request, orderIds: live.map((order: OkxOrder) => order.ordId) };
+            }
+            const results = await self.cancelOrders(cancelRequest);
+            const failed = results.filter((result: OkxOrderResult) => result.sCode !== '0');
+            logger.log(`Cancelled ${results.length - failed.length} of ${results.length} orders`);
+            failed.forEach((result: OkxOrderResult) => logger.warn(`Cancel failed for ${result.ordId || result.clOrdId}: ${result.sCode} ${result.sMsg}`));
         } catch (error) {
-            logger.log(`POST Error: ${error.toString()}`);
+            logger.error('Error cancelling orders:', error);
         }
     }
 
-    private async deleteRequest(endpoint: string): Promise<any> {
-        const self = this;
-        const timestamp = Date.now() / 1000;
-        const method = 'DELETE';
-        const requestPath = `/api/v5/delete${endpoint}`;
-
-        const sign = CryptoJS.enc.Base64.stringify(CryptoJS.HmacSHA256(`${timestamp}${method}${requestPath}`, this.credential.secret));
-
-        const headers = {
-            'OK-ACCESS-KEY': self.credential.key,
-            'OK-ACCESS-SIGN': sign,
-            'OK-ACCESS-TIMESTAMP': timestamp.toString(),
-            'OK-ACCESS-PASSPHRASE': self.credential.passphrase,
-            'Content-Type': 'application/json'
-        };
-
-        try {
-            const result = await self.axios.delete(`${self.restUrl}${requestPath}`, { headers });
-            return result.data;
-        } catch (error) {
-            logger.log(`DELETE Error: ${error.toString()}`);
-        }
+    public async cancelOrders(request: CancelOrdersRequest): Promise<OkxOrderResult[]> {
+        const self = this
+        const instId = await self.instruments.getInstId(request.symbol ?? self.sklSymbol);
+        const args: OkxOrderArg[] = [
+            ...(request.orderIds ?? []).map((ordId: string) => ({ instId, ordId })),
+            ...(request.sklOrderIds ?? []).map((sklOrderId: string) => ({ instId, clOrdId: getOkxClientOrderId(sklOrderId) })),
+        ];
+        return self.sendBatches(args, 'cancel-order', 'batch-cancel-orders', '/api/v5/trade/cancel-batch-orders');
     }
 
-    private async getRequest(route: string, params: any): Promise<any> {
+    public async amendOrders(request: AmendOrdersRequest): Promise<OkxOrderResult[]> {
         const self = this
-        let queryString = '';
-        const timestamp = Math.floor(Date.now() / 1000).toString();
-        const method = 'GET';
-        const requestPath = `/api/v5${route}`;
-        const sign = CryptoJS.enc.Base64.stringify(CryptoJS.HmacSHA256(`${timestamp}${method}${requestPath}${queryString}`, this.credential.secret));
-
-        if (Object.keys(params).length > 0) {
-            queryString = '?' + new URLSearchParams(params).toString();
-        }
-
-        const headers = {
-            'OK-ACCESS-KEY': self.credential.key,
-            'OK-ACCESS-SIGN': sign,
-            'OK-ACCESS-TIMESTAMP': timestamp.toString(),
-            'OK-ACCESS-PASSPHRASE': self.credential.passphrase,
-        };
+        const instrument = await self.instruments.getInstrument(request.symbol ?? self.sklSymbol);
+        const rounding = self.config.orderRounding ?? 'round';
+        const rejections: string[] = [];
+        const args: OkxOrderArg[] = request.amendments.map((amendment: OrderAmendment, index: number) => {
+            const id = amendment.orderId ?? amendment.sklOrderId ?? `${index}`;
+            if (amendment.price === undefined && amendment.quantity === undefined) {
+                rejections.push(`amendment ${id}: neither price nor quantity given`);
+            }
+            // prices round away from the market on the order's side
+            const side = self.orders.getOrder(amendment.orderId ?? amendment.sklOrderId ?? '')?.side ?? 'Buy';
+            // the size is only checked when it changes
+            const normalized = self.instruments.normalizeOrder(instrument, side, amendment.price, amendment.quantity ?? parseFloat(instrument.minSz), rounding);
+            normalized.reasons.forEach((reason: string) => rejections.push(`amendment ${id}: ${reason}`));
+            return {
+                instId: instrument.instId,
+                ordId: amendment.orderId,
+                clOrdId: amendment.orderId === undefined && amendment.sklOrderId !== undefined ? getOkxClientOrderId(amendment.sklOrderId) : undefined,
+                newPx: normalized.px,
+                newSz: amendment.quantity === undefined ? undefined : normalized.sz,
+            };
+        });
 
-        try {
-            const result = await self.axios.get(`${self.restUrl}${requestPath}${queryString}`, { headers });
-            return result.data;
-        } catch (error) {
-            console.log(error);
+        if (rejections.length > 0) {
+            throw new OkxOrderValidationError(`Rejected ${request.amendments.length} amendments for ${instrument.instId}`, rejections);
         }
+        return self.sendBatches(args, 'amend-order', 'batch-amend-orders', '/api/v5/trade/amend-batch-orders');
     }
 
-    public async deleteAllOrders(request: CancelOrdersRequest): Promise<void> {
-        const { orderIds } = request;
-        const okxMaxBatchSize = 20;
-        logger.log('DeleteAllOrders Process Initiated');
-        const batches = this.chunkArray(orderIds, okxMaxBatchSize);
-
-        try {
-            const results = await Promise.all(batches.map(async (batch) => {
-                const cancelBatchRequest = {
-                    instId: this.okxSymbol,
-                    orders: batch.map(id => ({ ordId: id }))
-                };
-                
-                return this.postRequest('/api/v5/trade/cancel-batch-orders', cancelBatchRequest);
-            }));
-
-            logger.log('Order cancellation results:', results);
-        } catch (error) {
-            logger.error('Error cancelling orders:', error);
-        }
+    // the websocket is used while it is up, REST keeps cancels working while it reconnects
+    private async sendBatches(args: OkxOrderArg[], singleOp: OkxOrderOperation, batchOp: OkxOrderOperation, restPath: string): Promise<OkxOrderResult[]> {
+        const self = this
+        const OkxMaxBatchSize = 20;
+        const batches: OkxOrderArg[][] = self.chunkArray(args, OkxMaxBatchSize);
+        const results = await Promise.all(batches.map((batch: OkxOrderArg[]) => {
+            if (!self.privateWebsocketFeed.isReady()) {
+                return self.restClient.post<OkxOrderResult>(restPath, batch);
+            }
+            return batch.length === 1 ? self.orderGateway.send(singleOp, batch) : self.orderGateway.send(batchOp, batch);
+        }));
+        return results.flat();
     }
 
+    private async getLiveOrders(symbol: string): Promise<OkxOrder[]> {
+        const self = this
+        const OkxPageSize = 100;
+        const instId = await self.instruments.getInstId(symbol);
+        const orders: OkxOrder[] = [];
+        let page: OkxOrder[];
+        do {
+            const after = orders.length > 0 ? { after: orders[orders.length - 1].ordId } : {};
+            page = await self.restClient.get<OkxOrder>('/api/v5/trade/orders-pending', { instType: 'SPOT', instId, limit: OkxPageSize, ...after });
+            orders.push(...page);
+        } while (page.length === OkxPageSize);
+        return orders;
+    }
 
     public async getBalancePercentage(request: BalanceRequest): Promise<BalanceResponse> {
         const self = this
-        const result = await this.getRequest('/api/v5/account/balance', {});
+        // the account channel keeps the cache current, REST is only needed before its first push
+        if (self.balances.size === 0) {
+            const result = await self.restClient.get<OkxAccountBalance>('/api/v5/account/balance');
+            // an account that never held funds has no balance entry
+            const timestamp = parseInt(result[0]?.uTime) || Date.now();
+            self.updateBalances((result[0]?.details ?? []).map((detail: OkxBalanceDetail) => self.createBalanceUpdate(detail, timestamp)));
+        }
+        return self.getCachedBalancePercentage(request.lastPrice);
+    }
 
-        const baseAsset = this.group.name;
-        const quoteAsset = this.config.quoteAsset;
+    public getBalances(): BalanceUpdate[] {
+        return Array.from(this.balances.values())
+    }
 
-        const balances = result.data[0].details;
-        const base = balances.find((b: any) => b.ccy === baseAsset) || { cashBal: '0', frozenBal: '0' };
-        const quote = balances.find((b: any) => b.ccy === quoteAsset) || { cashBal: '0', frozenBal: '0' };
+    public getCachedBalancePercentage(lastPrice: number): BalanceResponse {
+        const self = this
+        const base = self.balances.get(self.group.name);
+        const quote = self.balances.get(self.config.quoteAsset);
 
-        const baseVal = parseFloat(base.cashBal) + parseFloat(base.frozenBal);
-        const baseValue = baseVal * request.lastPrice;
-        const quoteValue = parseFloat(quote.cashBal) + parseFloat(quote.frozenBal);
+        const baseVal = (base?.cash ?? 0) + (base?.frozen ?? 0);
+        const baseValue = baseVal * lastPrice;
+        const quoteValue = (quote?.cash ?? 0) + (quote?.frozen ?? 0);
 
         const whole = baseValue + quoteValue;
-        const pairPercentage = (baseValue / whole) * 100;
+        // an empty account has no inventory rather than NaN
+        const pairPercentage = whole > 0 ? (baseValue / whole) * 100 : 0;
 
         return {
-            event: "BalanceRequest",
+            event: "BalanceResponse",
             symbol: self.sklSymbol,
             baseBalance: baseVal,
             quoteBalance: quoteValue,
@@ -444,49 +525,213 @@ export class OkxSpotPrivateConnector implements PrivateExchangeConnector {
         };
     }
     
+    // open orders as last seen on the orders channel, no REST call
+    public getOpenOrders(symbol: string = this.sklSymbol): TrackedOrder[] {
+        return this.orders.getOpenOrders(symbol)
+    }
+
     public async getCurrentActiveOrders(request: OpenOrdersRequest): Promise<OrderStatusUpdate[]> {
-        const endpoint = '/api/v3/openOrders'; // update endpoint 
-        const response = await this.getRequest(endpoint, { symbol: this.exchangeSymbol });
-    
-        return response.map(order => ({
-            event: 'OrderStatusUpdate',
-            connectorType: 'ExchangeName',
+        const self = this
+        const instId = await self.instruments.getInstId(request.symbol);
+        const orders = await self.restClient.get<OkxOrder>('/api/v5/trade/orders-pending', { instType: 'SPOT', instId });
+        return orders
+            .filter((order: OkxOrder) => OkxOpenOrdersStateMap[order.state] !== undefined)
+            .map((order: OkxOrder) => self.createOrderStatusUpdate('OrderStatusUpdate', order, self.group));
+    }
+
+    // catches up on fills, cancels and balance changes missed while the private feed was down
+    private async reconcile(): Promise<void> {
+        const self = this
+        try {
+            const orderMessages = await self.reconcileOrders();
+            const balanceMessages = await self.reconcileBalances();
+            const messages: Serializable[] = [...orderMessages, ...balanceMessages];
+            logger.log(`Reconciliation found ${orderMessages.length} order and ${balanceMessages.length} balance differences`);
+            if (messages.length > 0 && self.onMessage) {
+                self.onMessage(messages);
+            }
+        } catch (error) {
+            logger.error('Error during reconciliation:', error);
+        }
+    }
+
+    private async reconcileOrders(): Promise<Serializable[]> {
+        const self = this
+        const instId = await self.instruments.getInstId(self.sklSymbol);
+        const pending = await self.restClient.get<OkxOrder>('/api/v5/trade/orders-pending', { instType: 'SPOT', instId });
+        const pendingIds = new Set(pending.map((order: OkxOrder) => order.ordId));
+
+        // orders we still think are open but the exchange no longer lists as pending
+        const missing = self.orders.getOpenOrders(self.sklSymbol)
+            .filter((order: TrackedOrder) => !pendingIds.has(order.orderId));
+        const closed: OkxOrder[] = [];
+        if (missing.length > 0) {
+            const history = await self.restClient.get<OkxOrder>('/api/v5/trade/orders-history', { instType: 'SPOT', instId, limit: 100 });
+            const historyById = new Map(history.map((order: OkxOrder) => [order.ordId, order]));
+            for (const order of missing) {
+                const closedOrder = historyById.get(order.orderId)
+                    ?? (await self.restClient.get<OkxOrder>('/api/v5/trade/order', { instId, ordId: order.orderId }))[0];
+                if (closedOrder) {
+                    closed.push(closedOrder);
+                }
+            }
+        }
+
+        return [...pending, ...closed].flatMap((order: OkxOrder) => {
+            return self.applyOrderUpdate(self.createOrderStatusUpdate('OrderStatusUpdate', order, self.group), true);
+        });
+    }
+
+    private async reconcileBalances(): Promise<BalanceUpdate[]> {
+        const self = this
+        const result = await self.restClient.get<OkxAccountBalance>('/api/v5/account/balance');
+        const timestamp = parseInt(result[0]?.uTime) || Date.now();
+        return self.updateBalances((result[0]?.details ?? []).map((detail: OkxBalanceDetail) => self.createBalanceUpdate(detail, timestamp)));
+    }
+
+    // stores the updates and returns the ones that changed a balance, older updates are ignored
+    private updateBalances(updates: BalanceUpdate[]): BalanceUpdate[] {
+        const self = this
+        return updates.filter((update: BalanceUpdate) => {
+            const previous = self.balances.get(update.currency);
+            if (previous !== undefined && previous.timestamp > update.timestamp) {
+                return false;
+            }
+            self.balances.set(update.currency, update);
+            return previous === undefined
+                || previous.cash !== update.cash
+                || previous.frozen !== update.frozen
+                || previous.available !== update.available;
+        });
+    }
+
+    // frozen amounts are kept from the last account push
+    private createCashBalanceUpdate(ccy: string, cashBal: string, timestamp: number): BalanceUpdate {
+        const frozen = this.balances.get(ccy)?.frozen ?? 0;
+        const cash = parseFloat(cashBal);
+        return {
             symbol: this.sklSymbol,
-            orderId: order.orderId,
-            sklOrderId: order.clientOrderId,
-            state: mapOrderState(order.status),
-            side: mapExchangeSide(order.side),
-            price: parseFloat(order.price),
-            size: parseFloat(order.origQty),
-            notional: parseFloat(order.price) * parseFloat(order.origQty),
-            filled_price: parseFloat(order.price),
-            filled_size: parseFloat(order.executedQty),
-            timestamp: order.time,
-        }));
+            connectorType: 'Okx',
+            event: 'BalanceUpdate',
+            currency: ccy,
+            cash,
+            frozen,
+            available: cash - frozen,
+            timestamp,
+        };
+    }
+
+    private createBalanceUpdate(detail: OkxBalanceDetail, timestamp: number): BalanceUpdate {
+        return {
+            symbol: this.sklSymbol,
+            connectorType: 'Okx',
+            event: 'BalanceUpdate',
+            currency: detail.ccy,
+            cash: parseFloat(detail.cashBal),
+            frozen: parseFloat(detail.frozenBal),
+            available: parseFloat(detail.availBal),
+            timestamp,
+        };
     }
 
     private getEventType(message: OkxEvent): SklEvent | null {
-        if (message.event != 'error'){
-            if (message.channel === 'orders') {
-                return 'OrderStatusUpdate';
-            }
-        } else if (message.event === 'error') {
+        if (message.event === 'error') {
             logger.error(`Error message received: ${message.msg}`);
             return null;
         }
+        if (message.event === undefined && message.arg?.channel === 'orders') {
+            return 'OrderStatusUpdate';
+        }
+        if (message.event === undefined && message.arg?.channel === 'fills') {
+            return 'OrderFill';
+        }
+        if (message.event === undefined && (message.arg?.channel === 'account' || message.arg?.channel === 'balance_and_position')) {
+            return 'BalanceUpdate';
+        }
+        return null;
     }
 
-    private createSklEvent(event: SklEvent, message: any, group: ConnectorGroup): Serializable[] {
+    private createSklEvent(event: SklEvent, message: OkxEvent, group: ConnectorGroup): Serializable[] {
+        const self = this
         if (event === 'OrderStatusUpdate') {
-            return message.data.map((order: any) => this.createOrderStatusUpdate(event, order, group));
+            return (message.data as OkxOrder[]).flatMap((order: OkxOrder) => {
+                return self.applyOrderUpdate(self.createOrderStatusUpdate(event, order, group), false, order)
+            });
+        } else if (event === 'OrderFill') {
+            return (message.data as OkxFill[])
+                .map((fill: OkxFill) => self.createFill(fill))
+                .filter((fill: OrderFill) => self.ledger.record(fill));
+        } else if (event === 'BalanceUpdate' && message.arg?.channel === 'account') {
+            return self.updateBalances((message.data as OkxAccountBalance[]).flatMap((account: OkxAccountBalance) => {
+                return account.details.map((detail: OkxBalanceDetail) => {
+                    return self.createBalanceUpdate(detail, parseInt(detail.uTime || account.uTime))
+                })
+            }));
+        } else if (event === 'BalanceUpdate') {
+            return self.updateBalances((message.data as OkxBalanceAndPosition[]).flatMap((push: OkxBalanceAndPosition) => {
+                return push.balData.map((balance) => self.createCashBalanceUpdate(balance.ccy, balance.cashBal, parseInt(balance.uTime)))
+            }));
         } else {
             return [];
         }
     }
 
-    private createOrderStatusUpdate(action: SklEvent, order: any, group: ConnectorGroup): OrderStatusUpdate {
-        const state: OrderState = OkxWSOrderUpdateStateMap[order.state];
+    // fills reported by OKX carry the execution price and fee, otherwise they are derived by the store
+    private applyOrderUpdate(update: OrderStatusUpdate, changesOnly: boolean, order?: OkxOrder): Serializable[] {
+        const previous = this.orders.getOrder(update.orderId)
+        if (changesOnly && previous && previous.state === update.state && previous.filledSize === update.filled_size) {
+            return []
+        }
+        const result = this.orders.apply(update)
+        // illegal transitions are dropped by the store
+        if (result === null) {
+            return []
+        }
+        const fill = result.fill && order?.tradeId && parseFloat(order.fillSz || '0') > 0
+            ? this.createOrderFill(update, order)
+            : result.fill
+        return fill && this.ledger.record(fill) ? [update, fill] : [update]
+    }
+
+    private createOrderFill(update: OrderStatusUpdate, order: OkxOrder): OrderFill {
+        return {
+            symbol: update.symbol,
+            connectorType: 'Okx',
+            event: 'OrderFill',
+            orderId: update.orderId,
+            sklOrderId: update.sklOrderId,
+            side: update.side,
+            price: parseFloat(order.fillPx!),
+            size: parseFloat(order.fillSz!),
+            tradeId: order.tradeId,
+            fee: order.fillFee ? parseFloat(order.fillFee) : undefined,
+            feeCurrency: order.fillFeeCcy || undefined,
+            timestamp: parseInt(order.uTime),
+        }
+    }
+
+    private createFill(fill: OkxFill): OrderFill {
+        return {
+            symbol: this.sklSymbol,
+            connectorType: 'Okx',
+            event: 'OrderFill',
+            orderId: fill.ordId,
+            sklOrderId: this.orders.getOrder(fill.ordId)?.sklOrderId ?? '',
+            side: OkxSideMap[fill.side],
+            price: parseFloat(fill.fillPx),
+            size: parseFloat(fill.fillSz),
+            tradeId: fill.tradeId,
+            timestamp: parseInt(fill.ts),
+        }
+    }
+
+    private createOrderStatusUpdate(action: 'OrderStatusUpdate', order: OkxOrder, group: ConnectorGroup): OrderStatusUpdate {
+        const state: OrderState = OkxWebsocketOrderUpdateStateMap[order.state];
         const side: Side = OkxSideMap[order.side];
+        const sklOrderId = this.sklOrderIds.get(order.clOrdId) ?? order.clOrdId;
+        if (state === 'Filled' || state === 'Cancelled') {
+            this.sklOrderIds.delete(order.clOrdId);
+        }
 
         return {
             symbol: this.sklSymbol,
@@ -494,29 +739,15 @@ export class OkxSpotPrivateConnector implements PrivateExchangeConnector {
             event: action,
             state,
             orderId: order.ordId,
-            sklOrderId: order.clOrdId,
+            sklOrderId,
             side,
-            price: parseFloat(order.px),
+            price: parseFloat(order.px || '0'),
             size: parseFloat(order.sz),
-            notional: parseFloat(order.px) * parseFloat(order.sz),
-            filled_price: parseFloat(order.avgPx),
-            filled_size: parseFloat(order.accFillSz),
+            notional: parseFloat(order.px || '0') * parseFloat(order.sz),
+            filled_price: parseFloat(order.avgPx || '0'),
+            filled_size: parseFloat(order.accFillSz || '0'),
             timestamp: parseInt(order.uTime)
         };
     }
 
-    private startPingInterval(): void {
-        this.pingInterval = setInterval(() => {
-            this.privateWebsocketFeed.send(JSON.stringify({ method: 'PING' }));
-        }, 5000); 
-    }
-
-    private stopPingInterval(): void {
-        if (this.pingInterval) {
-            clearInterval(this.pingInterval);
-            this.pingInterval = null;
-        }
-    }
-  
-
 }
@@ -1,311 +1,689 @@
-import { ConnectorConfiguration, ConnectorGroup, PublicExchangeConnector, Serializable, SklEvent, Ticker, TopOfBook, Trade } from "../../types";
+import { BookInvalidated, BookLevel, BookResyncMode, Candle, ConnectorConfiguration, ConnectorGroup, Credential, CredentialProvider, IndexPrice, OrderBook, PublicExchangeConnector, Serializable, SklEvent, SubscriptionState, SubscriptionStatus, Ticker, TopOfBook, Trade } from "../../types";
+import { CandleAggregator } from "../../market-data/candle-aggregator";
+import { MarketDataRecorder } from "../../market-data/market-data-recorder";
+import { ConnectorMetrics } from "../../metrics/connector-metrics";
 import { getSklSymbol } from "../../util/config";
+import { toCredentialProvider } from "../../util/credentials";
 import { Logger } from "../../util/logging";
-import { WebSocket } from 'ws'
-import { getOkxSymbol, okxSideMap } from "./okx-spot";
+import { createOkxLoginMessage, getOkxMessageTime, getOkxSymbol, OkxSide, OkxSideMap } from "./okx-spot";
+import { getOkxEndpoints } from "./okx-spot-environments";
+import { OkxBookLevel, OkxOrderBook, OkxPriceLevel } from "./okx-spot-order-book";
+import { OkxRestClient } from "./okx-spot-rest-client";
+import { OkxSubscriptionArg, OkxSubscriptionRegistry } from "./okx-spot-subscriptions";
+import { OkxConnectionState, OkxWebsocketSession } from "./okx-spot-websocket-session";
 
 //Interfaces //
 
 type OkxEventType = 'snapshot' | 'update'
 
 interface OkxEvent {
-    event: string; // "subscribe" or "error"
-    channel: string; 
-    arg?: Record<string, unknown>; // {Channel, InstId}
+    id?: string;
+    event: string; // "subscribe", "unsubscribe" or "error"
+    arg?: { channel: string, instId: string };
+    action?: OkxEventType;
     connId?: string; 
     code?: string; 
     msg?: string; 
     timestamp: string; 
-    sequence_num: number;
-    data: OkxMarketDepthEvent[] | OkxTradeEvent[] | OkxTickerEvent[];
+    data: OkxMarketDepthEvent[] | OkxTrade[] | OkxTicker[] | OkxIndexTicker[] | OkxCandle[];
 }
 
 
-type OkxMarketDepthSide = 'bid' | 'offer'
-interface OkxMarketDepthLevel {
-    side: OkxMarketDepthSide,
-    event_time: string,
-    price_level: string,
-    new_quantity: string,
-}
-
+// books5 and bbo-tbt push the whole book every time, without checksum or prevSeqId
 interface OkxMarketDepthEvent {
-    type: OkxEventType,
-    product_id: string,
-    updates: OkxMarketDepthLevel[],
+    asks: OkxBookLevel[],
+    bids: OkxBookLevel[],
+    ts: string,
+    checksum: number,
+    // -1 on snapshots
+    prevSeqId: number,
+    seqId: number,
 }
 
 interface OkxTicker {
-    symbol: string;
-    connectorType: 'Okx';
-    event: 'Ticker';
+    instType: string;
     instId: string;
-    lastPrice: string;
-    timestamp: string;
+    last: string;
+    lastSz: string;
+    askPx: string;
+    askSz: string;
+    bidPx: string;
+    bidSz: string;
+    open24h: string;
+    high24h: string;
+    low24h: string;
+    // base currency for spot
+    vol24h: string;
+    // quote currency for spot
+    volCcy24h: string;
+    ts: string;
 }
 
-interface OkxTickerEvent {
-    type: OkxEventType,
-    tickers: OkxTicker[],
+interface OkxIndexTicker {
+    instId: string;
+    idxPx: string;
+    open24h: string;
+    high24h: string;
+    low24h: string;
+    ts: string;
 }
 
 interface OkxTrade {
-    symbol: string;
     instId: string;
     tradeId: string;
-    price: string;
-    size: string;
-    side: string;
-    timestamp: string;
+    px: string;
+    sz: string;
+    side: OkxSide;
+    ts: string;
 }
 
-interface OkxTradeEvent {
-    type: OkxEventType,
-    trades: OkxTrade[],
+// [ts, o, h, l, c, vol, volCcy, volCcyQuote, confirm]
+type OkxCandle = [string, string, string, string, string, string, string, string, string]
+
+interface OkxDepthChannel {
+    // levels OKX keeps on the channel, also fetched for a REST snapshot
+    depth: number;
+    // a snapshot followed by checksummed and sequenced updates, otherwise every push is a snapshot
+    incremental: boolean;
 }
 
+const OkxDefaultPublicChannels = ['tickers', 'trades', 'books']
+
+// books pushes every 100ms, the tick by tick channels on every change
+const OkxDepthChannels: { [channel: string]: OkxDepthChannel } = {
+    'books': { depth: 400, incremental: true },
+    'books50-l2-tbt': { depth: 50, incremental: true },
+    'books5': { depth: 5, incremental: false },
+    'bbo-tbt': { depth: 1, incremental: false },
+}
+
+const isBusinessChannel = (channel: string): boolean => channel.startsWith('candle')
+
+const isDepthChannel = (channel: string): boolean => OkxDepthChannels[channel] !== undefined
+
+// an instrument can be subscribed to more than one depth channel
+const getBookKey = (channel: string, instId: string): string => `${channel}:${instId}`
+
 const logger = Logger.getInstance('okx-spot-public-connector');
 
 
 export class OKXSpotPublicConnector implements PublicExchangeConnector {
     
-    public publicWebsocketAddress = 'wss://wseea.okx.com:8443/ws/v5/public';
-    public restUrl = 'http://www.okx.com';
-    public publicWebsocketFeed: any;
+    public publicWebsocketAddress: string;
+    // candle channels are only served on the business endpoint
+    public businessWebsocketAddress: string;
+    public restUrl: string;
+    public publicWebsocketFeed: OkxWebsocketSession;
+    public businessWebsocketFeed: OkxWebsocketSession | undefined;
     private okxSymbol: string;
     private sklSymbol: string;
-    public bids: OkxMarketDepthLevel[] = [];
-    public asks: OkxMarketDepthLevel[] = [];
+    // by channel and instId
+    public books: Map<string, OkxOrderBook> = new Map();
+    public metrics: ConnectorMetrics;
+    public bookResync: BookResyncMode;
+    private restClient: OkxRestClient;
+    // updates held back per book while a REST snapshot is fetched
+    private bufferedUpdates: Map<string, OkxMarketDepthEvent[]> = new Map();
+    private channels: string[];
+    private subscriptions: OkxSubscriptionRegistry = new OkxSubscriptionRegistry();
+    private businessSubscriptions: OkxSubscriptionRegistry = new OkxSubscriptionRegistry('b');
+    // instId -> skl symbol for every instrument ever subscribed
+    private sklSymbols: Map<string, string> = new Map();
+    private recorder: MarketDataRecorder | undefined;
+    private candles: CandleAggregator | undefined;
+    private candleTimer: NodeJS.Timeout | undefined;
+    private onMessage: ((message: Serializable[]) => void) | undefined;
+    // only needed for channels served to logged in connections, such as books50-l2-tbt
+    private credentials: CredentialProvider | undefined;
 
     constructor(
         private group: ConnectorGroup,
-        private config: ConnectorConfiguration
+        private config: ConnectorConfiguration,
+        credential?: Credential | CredentialProvider,
     ) {
-        const self = this
-        self.okxSymbol = getOkxSymbol(self.group, self.config)
-        self.sklSymbol = getSklSymbol(self.group, self.config)
+        this.okxSymbol = getOkxSymbol(this.group, this.config)
+        this.sklSymbol = getSklSymbol(this.group, this.config)
+        const endpoints = getOkxEndpoints(this.config)
+        this.publicWebsocketAddress = endpoints.publicWebsocket
+        this.businessWebsocketAddress = endpoints.businessWebsocket
+        this.restUrl = endpoints.rest
+        this.channels = this.config.channels ?? OkxDefaultPublicChannels
+        this.metrics = new ConnectorMetrics('okx-spot-public', this.sklSymbol, this.config.metrics)
+        this.bookResync = this.config.bookResync ?? 'Resubscribe'
+        this.credentials = credential === undefined ? undefined : toCredentialProvider(credential, 'config')
+        this.restClient = new OkxRestClient({ baseUrl: this.restUrl, simulated: endpoints.simulated, metrics: this.metrics })
+        this.addSubscriptions([this.group, ...(this.config.groups ?? [])])
+        const credentials = this.credentials
+        this.publicWebsocketFeed = new OkxWebsocketSession({
+            name: 'okx-spot-public-session',
+            url: this.publicWebsocketAddress,
+            subscriptions: this.subscriptions,
+            login: credentials ? () => createOkxLoginMessage(credentials.getCredential()) : undefined,
+        })
+        credentials?.onRotate(() => {
+            logger.log('Credential rotated, reconnecting the public websocket')
+            this.publicWebsocketFeed.reconnect()
+        })
+        this.businessWebsocketFeed = new OkxWebsocketSession({
+            name: 'okx-spot-business-session',
+            url: this.businessWebsocketAddress,
+            subscriptions: this.businessSubscriptions,
+        })
+        if (this.config.recording) {
+            this.recorder = new MarketDataRecorder(this.config.recording, 'okx-spot-public')
+        }
+        if (this.config.candleIntervals?.length) {
+            this.candles = new CandleAggregator('Okx', this.config.candleIntervals)
+        }
     }
 
     public async connect(onMessage: (message: Serializable[]) => void): Promise<any> {
-            
         const self = this
-        const publicFeed = new Promise((resolve) => {
-            const url = self.publicWebsocketAddress;
-            self.publicWebsocketFeed = new WebSocket(url);
-            
-            self.publicWebsocketFeed.on('open', () => {
-                logger.log('WebSocket opened');
-                self.subscribeToChannels();
-            });
-
-            self.publicWebsocketFeed.onmessage = (message: any) => {
-                try {
-                    const OkxEvent: OkxEvent = JSON.parse(message.data) as OkxEvent;
+        self.onMessage = onMessage
+
+        self.publicWebsocketFeed.on('state', (state: OkxConnectionState) => {
+            // books are rebuilt from the snapshot sent after resubscribing
+            if (state === 'closed') {
+                const invalidated = Array.from(self.books.values())
+                    .filter((book: OkxOrderBook) => book.isValid)
+                    .map((book: OkxOrderBook) => self.createBookInvalidated(book.instId, 'Connection closed'))
+                self.books.forEach((book: OkxOrderBook) => book.clear())
+                if (invalidated.length > 0) {
+                    self.emit(invalidated)
+                }
+            }
+        })
+        self.attachFeed(self.publicWebsocketFeed)
+        if (self.businessWebsocketFeed) {
+            self.attachFeed(self.businessWebsocketFeed)
+        }
+        self.metrics.start()
+        self.metrics.watch(self.getWatchedChannels())
+
+        // the business connection is only opened once a candle channel is wanted
+        const started = [self.publicWebsocketFeed.start()]
+        if (self.businessSubscriptions.args().length > 0 && self.businessWebsocketFeed) {
+            started.push(self.businessWebsocketFeed.start())
+        }
+        return await Promise.all(started);
+    };
+
+    private attachFeed(feed: OkxWebsocketSession) {
+        const self = this
+
+        feed.on('frame', (frame: string, receivedAt: number) => {
+            self.recorder?.record(frame, receivedAt)
+        })
+
+        feed.on('state', (state: OkxConnectionState) => {
+            if (state === 'connecting' && feed.reconnectCount > 0) {
+                self.metrics.recordReconnect(feed === self.publicWebsocketFeed ? 'public' : 'business')
+            }
+        })
+
+        feed.on('message', (OkxEvent: OkxEvent) => {
+            try {
+                if (OkxEvent.event !== undefined) {
+                    const statusMessages: Serializable[] = self.handleSubscriptionEvent(OkxEvent);
+                    if (statusMessages.length > 0) {
+                        self.emit(statusMessages);
+                    }
+                    return;
+                }
+
+                const actionType: SklEvent | null = self.getEventType(OkxEvent);
+                if (actionType) {
+                    const channel = OkxEvent.arg!.channel
+                    self.metrics.recordMessage(channel, getOkxMessageTime(OkxEvent.data))
+                    const serializableMessages: Serializable[] = self.metrics.measure(channel, () => self.createSklEvent(actionType, OkxEvent, self.group)
+                        .filter((serializableMessage: Serializable | null) => serializableMessage !== null) as Serializable[]);
                     
-                    const actionType: SklEvent | null = self.getEventType(OkxEvent);
-                    if (actionType) {
-                        const serializableMessages: Serializable[] = self.createSklEvent(actionType, OkxEvent, self.group)
-                            .filter((serializableMessage: Serializable | null) => serializableMessage !== null) as Serializable[];
-                        
-                        if (serializableMessages.length > 0) {
-                            onMessage(serializableMessages);
-                        } 
-                        else {
-                            logger.log(`No messages generated for event: ${JSON.stringify(OkxEvent)}`);
-                        }
-                    } 
-                    else {
-                        logger.log(`No handler for message: ${JSON.stringify(OkxEvent)}`);
+                    // book updates buffered or dropped during a resync produce no events
+                    if (serializableMessages.length > 0) {
+                        self.emit(serializableMessages);
                     }
-                } 
-                catch (error) {
-                    logger.error('Error parsing WebSocket message:', error);
                 }
-            };
-
-            self.publicWebsocketFeed.on('error', function error(err: any) {
-                logger.log(`WebSocket error: ${err.toString()}`);
-            });
-
-            self.publicWebsocketFeed.on('close', (code: string, msg: string) => {
-                const self = this
-                logger.log(`WebSocket closed: ${code} - ${msg}`);
-                setTimeout(() => {
-                    self.connect(onMessage);
-                }, 1000);
-            });
+                else {
+                    logger.log(`No handler for message: ${JSON.stringify(OkxEvent)}`);
+                }
+            } 
+            catch (error) {
+                logger.error('Error handling WebSocket message:', error);
+            }
         });
-        return await Promise.all([publicFeed]);
-    };
+    }
 
+    // backpressure from an EventStream, see src/events/event-stream.ts
+    public pause() {
+        this.publicWebsocketFeed.pause()
+        this.businessWebsocketFeed?.pause()
+    }
 
-    private subscribeToChannels() {
-        const channels = [
-            { channel: 'tickers', instId: 'BTC-USD' },
-            { channel: 'trades', instId: 'BTC-USD' },
-            { channel: 'books', instId: 'BTC-USD' }
-        ];
-        const subscriptionMessage = {
-            op: 'subscribe',
-            args: channels
-        };
-        this.publicWebsocketFeed.send(JSON.stringify(subscriptionMessage));
+    public resume() {
+        this.publicWebsocketFeed.resume()
+        this.businessWebsocketFeed?.resume()
     }
 
-    private unsubscribeFromChannels() {
-        const channels = [
-            { channel: 'tickers', instId: 'BTC-USD' },
-            { channel: 'trades', instId: 'BTC-USD' },
-            { channel: 'books', instId: 'BTC-USD' }
-        ];
-        const unsubscribeMessage = {
-            op: 'unsubscribe',
-            args: channels
-        };
-        this.publicWebsocketFeed.send(JSON.stringify(unsubscribeMessage));
+    private emit(messages: Serializable[]) {
+        this.onMessage?.(messages)
+    }
+
+    // channels default to each group's own, then the configuration's
+    public subscribe(groups: ConnectorGroup[], channels?: string[]) {
+        const self = this
+        const args = self.addSubscriptions(groups, channels)
+        if (self.onMessage) {
+            self.metrics.watch(Array.from(new Set(args.map((arg: OkxSubscriptionArg) => arg.channel))))
+        }
+        self.publicWebsocketFeed.subscribe(args.filter((arg: OkxSubscriptionArg) => !isBusinessChannel(arg.channel)))
+        const businessArgs = args.filter((arg: OkxSubscriptionArg) => isBusinessChannel(arg.channel))
+        if (businessArgs.length > 0 && self.businessWebsocketFeed && self.onMessage) {
+            // a closed session subscribes to the whole registry once it is ready
+            if (self.businessWebsocketFeed.state === 'closed') {
+                self.businessWebsocketFeed.start()
+            } else {
+                self.businessWebsocketFeed.subscribe(businessArgs)
+            }
+        }
+    }
+
+    public unsubscribe(groups: ConnectorGroup[], channels?: string[]) {
+        const self = this
+        const args = self.getSubscriptionArgs(groups, channels)
+        const publicArgs = self.subscriptions.remove(args)
+        publicArgs.filter((arg: OkxSubscriptionArg) => isDepthChannel(arg.channel))
+            .forEach((arg: OkxSubscriptionArg) => {
+                const key = getBookKey(arg.channel, arg.instId!)
+                self.books.delete(key)
+                self.bufferedUpdates.delete(key)
+            })
+        self.publicWebsocketFeed.unsubscribe(publicArgs)
+        self.businessWebsocketFeed?.unsubscribe(self.businessSubscriptions.remove(args))
+        // channels no group is subscribed to any more can't go stale
+        const removed = Array.from(new Set(args.map((arg: OkxSubscriptionArg) => arg.channel)))
+        self.metrics.unwatch(removed.filter((channel: string) =>
+            !self.getRegistry(channel).args().some((arg: OkxSubscriptionArg) => arg.channel === channel)))
+    }
+
+    private getChannels(group: ConnectorGroup, channels?: string[]): string[] {
+        return channels ?? group.channels ?? this.channels
+    }
+
+    private getWatchedChannels(): string[] {
+        const args = [...this.subscriptions.args(), ...this.businessSubscriptions.args()]
+        return Array.from(new Set(args.map((arg: OkxSubscriptionArg) => arg.channel)))
+    }
+
+    private addSubscriptions(groups: ConnectorGroup[], channels?: string[]): OkxSubscriptionArg[] {
+        const self = this
+        return groups.flatMap((group: ConnectorGroup) => {
+            const instId = getOkxSymbol(group, self.config)
+            const symbol = getSklSymbol(group, self.config)
+            self.sklSymbols.set(instId, symbol)
+            return self.getChannels(group, channels).flatMap((channel: string) => self.getRegistry(channel).add(symbol, [{ channel, instId }]))
+        })
+    }
+
+    private getRegistry(channel: string): OkxSubscriptionRegistry {
+        return isBusinessChannel(channel) ? this.businessSubscriptions : this.subscriptions
+    }
+
+    private getSubscriptionArgs(groups: ConnectorGroup[], channels?: string[]): OkxSubscriptionArg[] {
+        const self = this
+        return groups.flatMap((group: ConnectorGroup) => {
+            const instId = getOkxSymbol(group, self.config)
+            return self.getChannels(group, channels).map((channel: string) => ({ channel, instId }))
+        })
+    }
+
+    private handleSubscriptionEvent(message: OkxEvent): SubscriptionStatus[] {
+        const self = this
+        const request = self.subscriptions.resolveRequest(message.id) ?? self.businessSubscriptions.resolveRequest(message.id)
+        if (message.event === 'error') {
+            logger.error(`Error message received: ${message.code} ${message.msg}`);
+            // without a request id the failing subscription can't be identified
+            const args: OkxSubscriptionArg[] = request?.op === 'subscribe' ? request.args : []
+            return args.map((arg: OkxSubscriptionArg) => {
+                self.getRegistry(arg.channel).setState(arg, 'failed')
+                return self.createSubscriptionStatus(arg, 'Failed', message.msg)
+            })
+        }
+        if (message.arg === undefined) {
+            return []
+        }
+        if (message.event === 'subscribe') {
+            self.getRegistry(message.arg.channel).setState(message.arg, 'subscribed')
+            return [self.createSubscriptionStatus(message.arg, 'Subscribed')]
+        } else if (message.event === 'unsubscribe') {
+            return [self.createSubscriptionStatus(message.arg, 'Unsubscribed')]
+        }
+        return []
+    }
+
+    private createSubscriptionStatus(arg: OkxSubscriptionArg, status: SubscriptionState, reason?: string): SubscriptionStatus {
+        return {
+            symbol: this.getInstrumentSymbol(arg.instId!),
+            connectorType: 'Okx',
+            event: 'SubscriptionStatus',
+            channel: arg.channel,
+            status,
+            reason,
+            timestamp: Date.now(),
+        }
+    }
+
+    private getInstrumentSymbol(instId: string): string {
+        return this.sklSymbols.get(instId) ?? instId
     }
 
     public async stop(): Promise<void> {
         try {
-          await this.unsubscribeFromChannels();
-          await this.publicWebsocketFeed.close();
+          clearTimeout(this.candleTimer);
+          this.publicWebsocketFeed.unsubscribe(this.subscriptions.args());
+          this.publicWebsocketFeed.stop();
+          this.businessWebsocketFeed?.unsubscribe(this.businessSubscriptions.args());
+          this.businessWebsocketFeed?.stop();
+          await this.recorder?.close();
+          this.metrics.stop();
         } catch (error) {
           logger.error('Error during stop operation:', error);
         }
     }
       
     private getEventType(message: OkxEvent): SklEvent | null {
-        if (message.event != 'error'){
-            if (message.channel === 'trades') {
-                return 'Trade';
-            } else if (message.channel === 'books') {
-                return 'TopOfBook';
-            } else if (message.channel === 'tickers') {
-                return 'Ticker';
-            }
-        } else if (message.event === 'error') {
+        if (message.event === 'error') {
             logger.error(`Error message received: ${message.msg}`);
             return null;
         }
+        // subscribe/unsubscribe acknowledgements carry no data
+        if (message.event !== undefined || message.data === undefined) {
+            return null;
+        }
+        const channel = message.arg?.channel;
+        if (channel === 'trades') {
+            return 'Trade';
+        } else if (channel !== undefined && isDepthChannel(channel)) {
+            return 'TopOfBook';
+        } else if (channel === 'tickers') {
+            return 'Ticker';
+        } else if (channel === 'index-tickers') {
+            return 'IndexPrice';
+        } else if (channel !== undefined && isBusinessChannel(channel)) {
+            return 'Candle';
+        }
+        return null;
     }
     
     private createSklEvent(event: SklEvent, message: OkxEvent, group: ConnectorGroup): Serializable[]{
         const self = this
+        const instId = message.arg!.instId
+        const symbol = self.getInstrumentSymbol(instId)
         if (event === 'TopOfBook') {
+            const channel = message.arg!.channel
             const marketDepth: OkxMarketDepthEvent[] = message.data as OkxMarketDepthEvent[]
-            marketDepth.map((event: OkxMarketDepthEvent) => {
-                self.updateBook(event)
-            })
-            return [self.createTopOfBook(message.timestamp)]
+            const valid = marketDepth.every((event: OkxMarketDepthEvent) => self.updateBook(channel, instId, message.action, event))
+            const book = self.books.get(getBookKey(channel, instId))
+            if (!valid || book === undefined) {
+                return []
+            }
+            return self.createBookEvents(symbol, book)
         }
         else if (event === 'Trade') {
-            const trades: OkxTradeEvent[] = message.data as OkxTradeEvent[]
-            return trades
-                .flatMap((event: OkxTradeEvent) => {
-                    const mixedTrades: (Trade | null)[] = event.trades
-                        .map((trade: OkxTrade) => {
-                            return self.createTrade(trade)
-                        })
-                    const sklTrades: Trade[] = mixedTrades.filter((trade: Trade | null) => trade !== null) as Trade[]
-                    return sklTrades
+            const trades: OkxTrade[] = message.data as OkxTrade[]
+            const mixedTrades: (Trade | null)[] = trades
+                .map((trade: OkxTrade) => {
+                    return self.createTrade(symbol, trade)
                 })
+            const sklTrades = mixedTrades.filter((trade: Trade | null) => trade !== null) as Trade[]
+            if (self.candles === undefined) {
+                return sklTrades
+            }
+            const candles: Candle[] = sklTrades.flatMap((trade: Trade) => self.candles!.addTrade(trade))
+            self.scheduleCandleClose()
+            return [...sklTrades, ...candles]
 
+        } else if (event === 'Candle') {
+            const interval = message.arg!.channel.replace('candle', '')
+            return (message.data as OkxCandle[]).map((candle: OkxCandle) => self.createCandle(symbol, interval, candle))
         } else if (event === 'Ticker') {
-            const tickers: OkxTickerEvent[] = message.data as OkxTickerEvent[]
-            return tickers
-                .flatMap((event: OkxTickerEvent) => {
-                    const mixedTickers: (Ticker | null)[] = event.tickers
-                        .map((trade: OkxTicker) => {
-                            return self.createTicker(message.timestamp, trade)
-                        })
-                    const sklTickers: Ticker[] = mixedTickers.filter((ticker: Ticker | null) => ticker !== null) as Ticker[]
-                    return sklTickers
-                })
+            return (message.data as OkxTicker[]).map((ticker: OkxTicker) => self.createTicker(symbol, ticker))
+        } else if (event === 'IndexPrice') {
+            return (message.data as OkxIndexTicker[]).map((ticker: OkxIndexTicker) => self.createIndexPrice(symbol, ticker))
         } else {
             logger.log(`Unhandled public connector event: ${event}`)
             return []
         }
     }
 
-    private updateBook(event: OkxMarketDepthEvent) {
+    // bars are also closed on their boundary when no trade arrives to close them
+    private scheduleCandleClose() {
         const self = this
-        const eventData = event.updates
-        const bidsList = eventData.filter((event: OkxMarketDepthLevel) => event.side === "bid")
-        const asksList = eventData.filter((event: OkxMarketDepthLevel) => event.side === "offer")
+        clearTimeout(self.candleTimer)
+        const nextClose = self.candles?.nextClose()
+        if (nextClose === undefined) {
+            return
+        }
+        self.candleTimer = setTimeout(() => {
+            const candles = self.candles!.closeElapsed()
+            if (candles.length > 0) {
+                self.emit(candles)
+            }
+            self.scheduleCandleClose()
+        }, Math.max(0, nextClose - Date.now()))
+    }
+
+    private updateBook(channel: string, instId: string, action: OkxEventType | undefined, event: OkxMarketDepthEvent): boolean {
+        const self = this
+        const key = getBookKey(channel, instId)
+        let book = self.books.get(key)
+        if (book === undefined) {
+            book = new OkxOrderBook(instId, channel)
+            self.books.set(key, book)
+        }
+        const timestamp = parseInt(event.ts)
+        if (!OkxDepthChannels[channel].incremental) {
+            book.applySnapshot(event.bids, event.asks, timestamp)
+            book.seqId = event.seqId
+            return true
+        }
+        // a book rebuilt from REST has no seqId until its first update passes the checksum
+        const unverified = book.isValid && book.seqId === undefined
 
         // initial orderbook
-        if (event.type === "snapshot") {
-            self.bids = bidsList
-            self.asks = asksList
-            // updates for orderbook
+        if (action === 'snapshot') {
+            // supersedes a REST snapshot still in flight
+            self.bufferedUpdates.delete(key)
+            book.applySnapshot(event.bids, event.asks, timestamp)
+        } else if (self.bufferedUpdates.has(key)) {
+            self.bufferedUpdates.get(key)!.push(event)
+            return false
+        // updates are only meaningful on top of a snapshot, drop them while resyncing
+        } else if (book.isValid) {
+            const sequence = book.checkSequence(event.prevSeqId, event.seqId)
+            if (sequence === 'duplicate') {
+                logger.warn(`Dropping duplicate ${instId} book update ${event.prevSeqId} -> ${event.seqId}, book is at ${book.seqId}`)
+                return false
+            }
+            if (sequence === 'gap') {
+                logger.error(`Sequence gap in ${instId} book, expected prevSeqId ${book.seqId} got ${event.prevSeqId}`)
+                self.resyncBook(book, `Sequence gap after ${book.seqId}`, self.bookResync)
+                return false
+            }
+            if (sequence === 'reset') {
+                logger.warn(`Sequence reset in ${instId} book from ${event.prevSeqId} to ${event.seqId}`)
+            }
+            book.applyUpdate(event.bids, event.asks, timestamp)
         } else {
-            // updates for bids
-            bidsList.forEach((event: any) => {
-                const eventIndex = self.bids.findIndex(bid => bid.price_level === event.price_level)
-                // remove existing bid if no more quantity
-                if (event.new_quantity === "0" && eventIndex !== -1) {
-                    self.bids.splice(eventIndex, 1)
-                    // add bid with quantity if not already in array - sorted descending
-                } else if (parseFloat(event.new_quantity) > 0 && eventIndex === -1) {
-                    self.bids.unshift(event)
-                    self.bids.sort((a, b) => parseFloat(b.price_level) - parseFloat(a.price_level))
-                }
-            })
+            return false
+        }
+        book.seqId = event.seqId
 
-            // updates for asks
-            asksList.forEach((event: any) => {
-                const eventIndex = self.asks.findIndex(ask => ask.price_level === event.price_level)
-                // remove existing ask
-                if (event.new_quantity === "0" && eventIndex !== -1) {
-                    self.asks.splice(eventIndex, 1)
-                    // add ask with quantity if not already in array - sorted ascending
-                } else if (parseFloat(event.new_quantity) > 0 && eventIndex === -1) {
-                    self.asks.unshift(event)
-                    self.asks.sort((a, b) => parseFloat(a.price_level) - parseFloat(b.price_level))
-                }
+        if (!book.verifyChecksum(event.checksum)) {
+            logger.error(`Checksum mismatch for ${instId} book, expected ${event.checksum} got ${book.checksum()}`)
+            // a REST snapshot that doesn't line up with the stream won't be fixed by fetching another
+            self.resyncBook(book, 'Checksum mismatch', unverified ? 'Resubscribe' : self.bookResync)
+            return false
+        }
+        return true
+    }
 
-            })
+    private resyncBook(book: OkxOrderBook, reason: string, mode: BookResyncMode) {
+        const self = this
+        book.clear()
+        self.emit([self.createBookInvalidated(book.instId, reason)])
+        if (mode === 'Snapshot') {
+            self.fetchBookSnapshot(book)
+        } else {
+            // OKX sends a fresh snapshot when the channel is subscribed again
+            const args = [{ channel: book.channel, instId: book.instId }]
+            self.publicWebsocketFeed.unsubscribe(args)
+            self.publicWebsocketFeed.subscribe(args)
         }
     }
 
-    private createTopOfBook(timestamp:string): TopOfBook | null {
+    // rebuilds the book from REST, then applies the updates that arrived in the meantime
+    private async fetchBookSnapshot(book: OkxOrderBook) {
         const self = this
-        if (self.bids.length === 0 || self.asks.length === 0) {
+        const instId = book.instId
+        const key = getBookKey(book.channel, instId)
+        const updates: OkxMarketDepthEvent[] = []
+        self.bufferedUpdates.set(key, updates)
+        let snapshot: OkxMarketDepthEvent | undefined
+        try {
+            [snapshot] = await self.restClient.get<OkxMarketDepthEvent>('/api/v5/market/books', { instId, sz: OkxDepthChannels[book.channel].depth })
+        } catch (error) {
+            logger.error(`Error fetching ${instId} book snapshot: ${error}`)
+        }
+        // unsubscribed, rebuilt from a websocket snapshot or resynced again while the request was in flight
+        if (self.bufferedUpdates.get(key) !== updates || self.books.get(key) !== book) {
+            return
+        }
+        self.bufferedUpdates.delete(key)
+        if (snapshot === undefined) {
+            self.resyncBook(book, 'Snapshot request failed', 'Resubscribe')
+            return
+        }
+        book.applySnapshot(snapshot.bids, snapshot.asks, parseInt(snapshot.ts))
+        // updates older than the snapshot are already part of it
+        const valid = updates
+            .filter((update: OkxMarketDepthEvent) => parseInt(update.ts) > book.timestamp)
+            .every((update: OkxMarketDepthEvent) => self.updateBook(book.channel, instId, 'update', update))
+        if (valid && book.isValid) {
+            self.emit(self.createBookEvents(self.getInstrumentSymbol(instId), book))
+        }
+    }
+
+    private createBookEvents(symbol: string, book: OkxOrderBook): Serializable[] {
+        const self = this
+        const events: (Serializable | null)[] = [self.createTopOfBook(symbol, book)]
+        if (self.config.bookDepth) {
+            events.push(self.createOrderBook(symbol, book, self.config.bookDepth))
+        }
+        return events.filter((event: Serializable | null) => event !== null) as Serializable[]
+    }
+
+    private createBookInvalidated(instId: string, reason: string): BookInvalidated {
+        return {
+            symbol: this.getInstrumentSymbol(instId),
+            connectorType: 'Okx',
+            event: 'BookInvalidated',
+            timestamp: Date.now(),
+            reason,
+        }
+    }
+
+    private createTopOfBook(symbol: string, book: OkxOrderBook): TopOfBook | null {
+        const self = this
+        const bestBid = book.bestBid()
+        const bestAsk = book.bestAsk()
+        if (bestBid === undefined || bestAsk === undefined) {
             return null
         }
         return {
-            symbol: self.sklSymbol,
+            symbol,
             connectorType: 'Okx',
             event: 'TopOfBook',
-            timestamp: (new Date(timestamp)).getTime(),
-            askPrice: parseFloat(self.asks[0].price_level),
-            askSize: parseFloat(self.asks[0].new_quantity),
-            bidPrice: parseFloat(self.bids[0].price_level),
-            bidSize: parseFloat(self.bids[0].new_quantity),
+            timestamp: book.timestamp,
+            askPrice: bestAsk.price,
+            askSize: bestAsk.size,
+            bidPrice: bestBid.price,
+            bidSize: bestBid.size,
         };
     }
 
-    private createTicker(timestamp: string, trade: OkxTicker): Ticker {
+    private createOrderBook(symbol: string, book: OkxOrderBook, levels: number): OrderBook {
         const self = this
+        const depth = book.getDepth(levels)
+        const toBookLevel = (level: OkxPriceLevel): BookLevel => ({ price: level.price, size: level.size })
+        return {
+            symbol,
+            connectorType: 'Okx',
+            event: 'OrderBook',
+            timestamp: book.timestamp,
+            bids: depth.bids.map(toBookLevel),
+            asks: depth.asks.map(toBookLevel),
+        };
+    }
+
+    private createTicker(symbol: string, ticker: OkxTicker): Ticker {
         return {
-            symbol: self.sklSymbol,
+            symbol,
             connectorType: 'Okx',
             event: 'Ticker',
-            lastPrice: parseFloat(trade.price),
-            timestamp: (new Date(timestamp)).getTime(),
+            timestamp: parseInt(ticker.ts),
+            lastPrice: parseFloat(ticker.last),
+            bidPrice: parseFloat(ticker.bidPx),
+            bidSize: parseFloat(ticker.bidSz),
+            askPrice: parseFloat(ticker.askPx),
+            askSize: parseFloat(ticker.askSz),
+            open24h: parseFloat(ticker.open24h),
+            high24h: parseFloat(ticker.high24h),
+            low24h: parseFloat(ticker.low24h),
+            volume24h: parseFloat(ticker.vol24h),
+            quoteVolume24h: parseFloat(ticker.volCcy24h),
+        };
+    }
+
+    private createIndexPrice(symbol: string, ticker: OkxIndexTicker): IndexPrice {
+        return {
+            symbol,
+            connectorType: 'Okx',
+            event: 'IndexPrice',
+            timestamp: parseInt(ticker.ts),
+            price: parseFloat(ticker.idxPx),
+            open24h: parseFloat(ticker.open24h),
+            high24h: parseFloat(ticker.high24h),
+            low24h: parseFloat(ticker.low24h),
         };
     }
 
-    private createTrade(trade: OkxTrade): Trade | null {
+    private createCandle(symbol: string, interval: string, candle: OkxCandle): Candle {
+        return {
+            symbol,
+            connectorType: 'Okx',
+            event: 'Candle',
+            timestamp: parseInt(candle[0]),
+            interval,
+            source: 'Exchange',
+            open: parseFloat(candle[1]),
+            high: parseFloat(candle[2]),
+            low: parseFloat(candle[3]),
+            close: parseFloat(candle[4]),
+            volume: parseFloat(candle[5]),
+            closed: candle[8] === '1',
+        }
+    }
+
+    private createTrade(symbol: string, trade: OkxTrade): Trade | null {
         const self = this
         return {
-            symbol: self.sklSymbol,
+            symbol,
             connectorType: 'Okx',
             event: 'Trade',
-            price: parseFloat(trade.price),
-            size: parseFloat(trade.size),
-            // side: okxSideMap(trade.side),
-            timestamp: (new Date(trade.timestamp)).getTime(),
+            price: parseFloat(trade.px),
+            size: parseFloat(trade.sz),
+            side: OkxSideMap[trade.side],
+            timestamp: parseInt(trade.ts),
         }
     }
 
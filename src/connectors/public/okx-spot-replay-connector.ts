@@ -0,0 +1,125 @@
+import { ConnectorConfiguration, ConnectorGroup, ReplayConfiguration } from "../../types";
+import { getRecordingFiles, readRecordingFile, RecordedFrame } from "../../market-data/market-data-recorder";
+import { Logger } from "../../util/logging";
+import { OKXSpotPublicConnector } from "./okx-spot-public-connector";
+import { OkxSubscriptionArg, OkxSubscriptionRegistry } from "./okx-spot-subscriptions";
+import { OkxConnectionState, OkxWebsocketSession } from "./okx-spot-websocket-session";
+
+const logger = Logger.getInstance('okx-spot-replay-connector');
+
+// frames replayed back to back before yielding to the event loop at full speed
+const OkxReplayBatchSize = 1000
+
+// Stands in for the websocket session and emits recorded frames with their original spacing.
+// start() resolves once the whole recording has been played.
+class OkxReplaySession extends OkxWebsocketSession {
+
+    private playing = false
+    // set while paused, playback waits for it
+    private pausedPlayback: Promise<void> | undefined
+    private resumePlayback: (() => void) | undefined
+
+    constructor(private replay: ReplayConfiguration) {
+        super({ name: 'okx-spot-replay-session', url: replay.path, subscriptions: new OkxSubscriptionRegistry() })
+    }
+
+    public async start(): Promise<void> {
+        const self = this
+        self.playing = true
+        self.setReplayState('open')
+        const speed = self.replay.speed ?? 1
+        let startedAt = Date.now()
+        let firstReceivedAt: number | undefined
+        let count = 0
+
+        for (const file of getRecordingFiles(self.replay.path)) {
+            logger.log(`Replaying ${file}`)
+            for (const recorded of readRecordingFile(file)) {
+                if (self.pausedPlayback) {
+                    const pausedAt = Date.now()
+                    await self.pausedPlayback
+                    // the recording's spacing continues from where it was paused
+                    startedAt += Date.now() - pausedAt
+                }
+                if (!self.playing) {
+                    return
+                }
+                firstReceivedAt = firstReceivedAt ?? recorded.receivedAt
+                if (speed > 0) {
+                    const delay = (recorded.receivedAt - firstReceivedAt) / speed - (Date.now() - startedAt)
+                    if (delay > 0) {
+                        await new Promise((resolve) => setTimeout(resolve, delay))
+                    }
+                } else if (++count % OkxReplayBatchSize === 0) {
+                    await new Promise((resolve) => setImmediate(resolve))
+                }
+                self.emitFrame(recorded)
+            }
+        }
+        logger.log('Replay finished')
+        self.setReplayState('closed')
+    }
+
+    public stop() {
+        this.playing = false
+        this.resume()
+        this.setReplayState('closed')
+    }
+
+    public pause() {
+        if (this.pausedPlayback === undefined) {
+            this.pausedPlayback = new Promise((resolve) => this.resumePlayback = resolve)
+        }
+    }
+
+    public resume() {
+        this.resumePlayback?.()
+        this.resumePlayback = undefined
+        this.pausedPlayback = undefined
+    }
+
+    public isReady(): boolean {
+        return this.playing
+    }
+
+    // nothing is sent, the recording already holds the exchange's responses
+    public send(payload: object | string): boolean {
+        return false
+    }
+
+    public subscribe(args: OkxSubscriptionArg[]) {}
+
+    public unsubscribe(args: OkxSubscriptionArg[]) {}
+
+    private emitFrame(recorded: RecordedFrame) {
+        let message: any
+        try {
+            message = JSON.parse(recorded.frame)
+        } catch (error) {
+            logger.error(`Error parsing recorded message: ${recorded.frame}`)
+            return
+        }
+        this.emit('message', message)
+    }
+
+    private setReplayState(state: OkxConnectionState) {
+        if (this.state !== state) {
+            const previous = this.state
+            this.state = state
+            this.emit('state', state, previous)
+        }
+    }
+}
+
+// Plays a recording through the same event pipeline as the live public connector.
+export class OkxSpotReplayConnector extends OKXSpotPublicConnector {
+
+    constructor(group: ConnectorGroup, config: ConnectorConfiguration, replay: ReplayConfiguration) {
+        super(group, config)
+        // the recording already interleaves frames from the public and business connections
+        this.publicWebsocketFeed = new OkxReplaySession(replay)
+        this.businessWebsocketFeed = undefined
+        // a recording can't be asked for a snapshot, it holds the one sent after resubscribing
+        this.bookResync = 'Resubscribe'
+    }
+}
@@ -0,0 +1,117 @@
+import * as crypto from 'crypto'
+import { CredentialProvider } from '../../types'
+import { createOkxApiError, OkxConnectionError, OkxError, OkxHttpError, OkxRequestTimeoutError } from './okx-spot-errors'
+import { OkxOrderResultCodes } from './okx-spot'
+import { ConnectorMetrics } from '../../metrics/connector-metrics'
+
+export type OkxRestMethod = 'GET' | 'POST'
+
+export type OkxRestParams = { [key: string]: string | number | boolean | undefined }
+
+export interface OkxRestResponse<T> {
+    code: string;
+    msg: string;
+    data: T[];
+}
+
+export interface OkxRestClientOptions {
+    baseUrl: string;
+    credentials?: CredentialProvider;
+    timeout?: number;
+    // demo trading accounts are only reachable with the x-simulated-trading header
+    simulated?: boolean;
+    // counts failed requests
+    metrics?: ConnectorMetrics;
+}
+
+// Signed client for the OKX v5 REST API, paths are passed in full e.g. /api/v5/account/balance
+export class OkxRestClient {
+
+    constructor(private options: OkxRestClientOptions) {}
+
+    public get<T>(path: string, params: OkxRestParams = {}): Promise<T[]> {
+        return this.request<T>('GET', `${path}${this.toQueryString(params)}`)
+    }
+
+    public post<T>(path: string, body: object): Promise<T[]> {
+        return this.request<T>('POST', path, JSON.stringify(body))
+    }
+
+    private async request<T>(method: OkxRestMethod, requestPath: string, body: string = ''): Promise<T[]> {
+        const self = this
+        try {
+            return await self.send<T>(method, requestPath, body)
+        } catch (error) {
+            // api errors are counted by OKX code, transport errors by type
+            const label = error instanceof OkxError && error.code !== undefined ? error.code : (error as Error).name
+            self.options.metrics?.recordRestError(requestPath.split('?')[0], label)
+            throw error
+        }
+    }
+
+    private async send<T>(method: OkxRestMethod, requestPath: string, body: string): Promise<T[]> {
+        const self = this
+        const timeout = self.options.timeout ?? 10000
+        let response: Response
+        try {
+            response = await fetch(`${self.options.baseUrl}${requestPath}`, {
+                method,
+                headers: self.createHeaders(method, requestPath, body),
+                body: method === 'GET' ? undefined : body,
+                signal: AbortSignal.timeout(timeout),
+            })
+        } catch (error) {
+            if (error instanceof Error && error.name === 'TimeoutError') {
+                throw new OkxRequestTimeoutError(`${method} ${requestPath} timed out after ${timeout}ms`)
+            }
+            throw new OkxConnectionError(`${method} ${requestPath} failed: ${error}`)
+        }
+
+        const text = await response.text()
+        let envelope: OkxRestResponse<T>
+        try {
+            envelope = JSON.parse(text) as OkxRestResponse<T>
+        } catch (error) {
+            throw new OkxHttpError(`${method} ${requestPath} returned ${response.status}: ${text}`, response.status)
+        }
+        if (envelope.code === undefined) {
+            throw new OkxHttpError(`${method} ${requestPath} returned ${response.status}: ${text}`, response.status)
+        }
+
+        // batch operations report partial failures per order in data
+        if (envelope.code === '0' || (OkxOrderResultCodes.includes(envelope.code) && envelope.data?.length > 0)) {
+            return envelope.data
+        }
+        throw createOkxApiError(envelope.code, envelope.msg)
+    }
+
+    private createHeaders(method: OkxRestMethod, requestPath: string, body: string): { [key: string]: string } {
+        const credential = this.options.credentials?.getCredential()
+        const headers: { [key: string]: string } = {
+            'Content-Type': 'application/json',
+        }
+        if (this.options.simulated) {
+            headers['x-simulated-trading'] = '1'
+        }
+        if (credential === undefined) {
+            return headers
+        }
+        const timestamp = new Date().toISOString()
+        const sign = crypto.createHmac('sha256', credential.secret)
+            .update(`${timestamp}${method}${requestPath}${body}`)
+            .digest('base64')
+
+        headers['OK-ACCESS-KEY'] = credential.key
+        headers['OK-ACCESS-SIGN'] = sign
+        headers['OK-ACCESS-TIMESTAMP'] = timestamp
+        headers['OK-ACCESS-PASSPHRASE'] = credential.passphrase
+        return headers
+    }
+
+    private toQueryString(params: OkxRestParams): string {
+        const entries = Object.entries(params)
+            .filter(([, value]) => value !== undefined)
+            .map(([key, value]) => [key, String(value)])
+        return entries.length > 0 ? `?${new URLSearchParams(entries).toString()}` : ''
+    }
+}
@@ -0,0 +1,94 @@
+export interface OkxSubscriptionArg {
+    channel: string;
+    instId?: string;
+    instType?: string;
+}
+
+export type OkxSubscriptionOperation = 'subscribe' | 'unsubscribe'
+
+export type OkxSubscriptionState = 'pending' | 'subscribed' | 'failed'
+
+export interface OkxSubscription {
+    arg: OkxSubscriptionArg;
+    symbol: string;
+    state: OkxSubscriptionState;
+}
+
+export interface OkxSubscriptionRequest {
+    id: string;
+    op: OkxSubscriptionOperation;
+    args: OkxSubscriptionArg[];
+}
+
+export const getSubscriptionKey = (arg: OkxSubscriptionArg): string => {
+    return `${arg.channel}:${arg.instId ?? ''}:${arg.instType ?? ''}`
+}
+
+// Tracks every channel the connector wants to be subscribed to so the
+// whole set can be replayed after a reconnect.
+export class OkxSubscriptionRegistry {
+
+    private subscriptions: Map<string, OkxSubscription> = new Map()
+    private pendingRequests: Map<string, OkxSubscriptionRequest> = new Map()
+    private requestCount = 0
+
+    // keeps request ids unique when several registries share one message handler
+    constructor(private requestPrefix: string = '') {}
+
+    public add(symbol: string, args: OkxSubscriptionArg[]): OkxSubscriptionArg[] {
+        const self = this
+        return args.filter((arg: OkxSubscriptionArg) => {
+            const key = getSubscriptionKey(arg)
+            if (self.subscriptions.has(key)) {
+                return false
+            }
+            self.subscriptions.set(key, { arg, symbol, state: 'pending' })
+            return true
+        })
+    }
+
+    public remove(args: OkxSubscriptionArg[]): OkxSubscriptionArg[] {
+        const self = this
+        return args.filter((arg: OkxSubscriptionArg) => self.subscriptions.delete(getSubscriptionKey(arg)))
+    }
+
+    public get(arg: OkxSubscriptionArg): OkxSubscription | undefined {
+        return this.subscriptions.get(getSubscriptionKey(arg))
+    }
+
+    public setState(arg: OkxSubscriptionArg, state: OkxSubscriptionState) {
+        const subscription = this.get(arg)
+        if (subscription) {
+            subscription.state = state
+        }
+    }
+
+    public args(): OkxSubscriptionArg[] {
+        return Array.from(this.subscriptions.values()).map((subscription: OkxSubscription) => subscription.arg)
+    }
+
+    // every subscription goes back to pending until the exchange acknowledges it again
+    public reset() {
+        this.subscriptions.forEach((subscription: OkxSubscription) => subscription.state = 'pending')
+        this.pendingRequests.clear()
+    }
+
+    public createRequest(op: OkxSubscriptionOperation, args: OkxSubscriptionArg[]): OkxSubscriptionRequest {
+        const request: OkxSubscriptionRequest = {
+            id: `${this.requestPrefix}${op === 'subscribe' ? 's' : 'u'}${++this.requestCount}`,
+            op,
+            args,
+        }
+        this.pendingRequests.set(request.id, request)
+        return request
+    }
+
+    public resolveRequest(id: string | undefined): OkxSubscriptionRequest | undefined {
+        if (id === undefined) {
+            return undefined
+        }
+        const request = this.pendingRequests.get(id)
+        this.pendingRequests.delete(id)
+        return request
+    }
+}
@@ -0,0 +1,262 @@
+import { EventEmitter } from 'events'
+import { RawData, WebSocket } from 'ws'
+import { Logger } from '../../util/logging'
+import { OkxSubscriptionArg, OkxSubscriptionRegistry } from './okx-spot-subscriptions'
+
+export type OkxConnectionState = 'connecting' | 'open' | 'authenticated' | 'degraded' | 'closed'
+
+export interface OkxWebsocketSessionOptions {
+    name: string;
+    url: string;
+    subscriptions: OkxSubscriptionRegistry;
+    // builds the login message, sessions without it are never authenticated
+    login?: () => object;
+    // silence before a ping is sent, OKX drops connections after 30s without traffic
+    pingInterval?: number;
+    // time to wait for any frame after a ping before the connection is considered degraded, then dead
+    pongTimeout?: number;
+    minReconnectDelay?: number;
+    maxReconnectDelay?: number;
+}
+
+const OkxLoginErrorCodes = ['60004', '60005', '60006', '60007', '60008', '60009', '60011', '60022', '60024']
+
+export class OkxWebsocketSession extends EventEmitter {
+
+    public state: OkxConnectionState = 'closed'
+    public reconnectCount = 0
+    private websocket: WebSocket | undefined
+    private stopped = true
+    private attempt = 0
+    private pingTimer: NodeJS.Timeout | undefined
+    private pongTimer: NodeJS.Timeout | undefined
+    private reconnectTimer: NodeJS.Timeout | undefined
+    private readyState: OkxConnectionState
+    private degradedFrom: OkxConnectionState = 'open'
+    private paused = false
+    private logger: Logger
+
+    constructor(private options: OkxWebsocketSessionOptions) {
+        super()
+        this.readyState = options.login ? 'authenticated' : 'open'
+        this.logger = Logger.getInstance(options.name)
+    }
+
+    // resolves the first time the session is ready to subscribe
+    public start(): Promise<void> {
+        const self = this
+        self.stopped = false
+        const ready = new Promise<void>((resolve) => {
+            const onState = (state: OkxConnectionState) => {
+                if (state === self.readyState) {
+                    self.off('state', onState)
+                    resolve()
+                }
+            }
+            self.on('state', onState)
+        })
+        self.open()
+        return ready
+    }
+
+    public stop() {
+        const self = this
+        self.stopped = true
+        clearTimeout(self.reconnectTimer)
+        self.clearHeartbeat()
+        if (self.websocket) {
+            self.websocket.removeAllListeners()
+            // closing a socket that is still connecting emits an error, which would be thrown without a listener
+            self.websocket.on('error', () => {})
+            self.websocket.close()
+            self.websocket = undefined
+        }
+        self.setState('closed')
+    }
+
+    // drops the connection, it is reopened and logged in again as after any disconnect
+    public reconnect() {
+        if (!this.stopped && this.websocket) {
+            this.websocket.terminate()
+        }
+    }
+
+    // stops reading frames, the exchange's own send buffer fills up meanwhile and OKX
+    // drops connections that fall too far behind. The heartbeat is suspended while paused.
+    public pause() {
+        this.paused = true
+        this.clearHeartbeat()
+        this.websocket?.pause()
+    }
+
+    public resume() {
+        this.paused = false
+        if (this.websocket) {
+            this.websocket.resume()
+            this.resetHeartbeat()
+        }
+    }
+
+    public isReady(): boolean {
+        return this.state === this.readyState || (this.state === 'degraded' && this.degradedFrom === this.readyState)
+    }
+
+    public send(payload: object | string): boolean {
+        const self = this
+        if (self.websocket === undefined || self.websocket.readyState !== WebSocket.OPEN) {
+            return false
+        }
+        self.websocket.send(typeof payload === 'string' ? payload : JSON.stringify(payload))
+        return true
+    }
+
+    public subscribe(args: OkxSubscriptionArg[]) {
+        this.sendSubscriptionRequest('subscribe', args)
+    }
+
+    public unsubscribe(args: OkxSubscriptionArg[]) {
+        this.sendSubscriptionRequest('unsubscribe', args)
+    }
+
+    // requests are only sent on a ready session, the registry is replayed once it becomes ready
+    private sendSubscriptionRequest(op: 'subscribe' | 'unsubscribe', args: OkxSubscriptionArg[]) {
+        if (args.length === 0 || !this.isReady()) {
+            return
+        }
+        this.send(this.options.subscriptions.createRequest(op, args))
+    }
+
+    private open() {
+        const self = this
+        self.setState('connecting')
+        const websocket = new WebSocket(self.options.url)
+        self.websocket = websocket
+
+        websocket.on('open', () => {
+            self.logger.log(`WebSocket opened: ${self.options.url}`)
+            self.setState('open')
+            if (self.paused) {
+                websocket.pause()
+            } else {
+                self.resetHeartbeat()
+            }
+            if (self.options.login) {
+                self.send(self.options.login())
+            } else {
+                self.onReady()
+            }
+        })
+
+        websocket.on('message', (data: RawData) => {
+            self.resetHeartbeat()
+            const text = data.toString()
+            if (text === 'pong') {
+                return
+            }
+            self.emit('frame', text, Date.now())
+            let message: any
+            try {
+                message = JSON.parse(text)
+            } catch (error) {
+                self.logger.error(`Error parsing WebSocket message: ${text}`)
+                return
+            }
+            if (self.handleLogin(message)) {
+                return
+            }
+            self.emit('message', message)
+        })
+
+        websocket.on('error', (err: Error) => {
+            self.logger.log(`WebSocket error: ${err.toString()}`)
+        })
+
+        websocket.on('close', (code: number, reason: Buffer) => {
+            self.logger.log(`WebSocket closed: ${code} - ${reason.toString()}`)
+            self.clearHeartbeat()
+            self.websocket = undefined
+            self.setState('closed')
+            if (!self.stopped) {
+                self.scheduleReconnect()
+            }
+        })
+    }
+
+    private handleLogin(message: any): boolean {
+        const self = this
+        if (message.event === 'login') {
+            if (message.code === '0') {
+                self.onReady()
+            } else {
+                self.onLoginFailed(message)
+            }
+            return true
+        }
+        // without a login the same codes reject subscriptions to channels that need one
+        if (message.event === 'error' && self.state === 'open' && self.options.login !== undefined && OkxLoginErrorCodes.includes(message.code)) {
+            self.onLoginFailed(message)
+            return true
+        }
+        return false
+    }
+
+    private onLoginFailed(message: any) {
+        this.logger.error(`Login failed: ${message.code} ${message.msg}`)
+        this.websocket?.terminate()
+    }
+
+    private onReady() {
+        const self = this
+        self.attempt = 0
+        self.setState(self.readyState)
+        self.options.subscriptions.reset()
+        self.subscribe(self.options.subscriptions.args())
+    }
+
+    private scheduleReconnect() {
+        const self = this
+        const minDelay = self.options.minReconnectDelay ?? 500
+        const maxDelay = self.options.maxReconnectDelay ?? 30000
+        // exponential backoff with equal jitter
+        const backoff = Math.min(maxDelay, minDelay * Math.pow(2, self.attempt))
+        const delay = backoff / 2 + Math.random() * backoff / 2
+        self.attempt++
+        self.reconnectCount++
+        self.logger.log(`Reconnecting in ${Math.round(delay)}ms (attempt ${self.attempt})`)
+        self.reconnectTimer = setTimeout(() => self.open(), delay)
+    }
+
+    private resetHeartbeat() {
+        const self = this
+        self.clearHeartbeat()
+        if (self.state === 'degraded') {
+            self.setState(self.degradedFrom)
+        }
+        const pongTimeout = self.options.pongTimeout ?? 5000
+        self.pingTimer = setTimeout(() => {
+            self.send('ping')
+            self.pongTimer = setTimeout(() => {
+                self.logger.log(`No response to ping after ${pongTimeout}ms`)
+                self.degradedFrom = self.state
+                self.setState('degraded')
+                self.pongTimer = setTimeout(() => {
+                    self.logger.log('Connection is stale, terminating')
+                    self.websocket?.terminate()
+                }, pongTimeout)
+            }, pongTimeout)
+        }, self.options.pingInterval ?? 20000)
+    }
+
+    private clearHeartbeat() {
+        clearTimeout(this.pingTimer)
+        clearTimeout(this.pongTimer)
+    }
+
+    private setState(state: OkxConnectionState) {
+        if (this.state !== state) {
+            const previous = this.state
+            this.state = state
+            this.emit('state', state, previous)
+        }
+    }
+}
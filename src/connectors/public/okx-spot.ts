@@ -1,17 +1,83 @@
-import { ConnectorConfiguration, ConnectorGroup, Side } from "../../types"
+import { createHash, createHmac } from "crypto"
+import { ConnectorConfiguration, ConnectorGroup, Credential, OrderType, Side } from "../../types"
 
-export type OkxTradeSide = 'BUY' | 'SELL' | undefined
+export type OkxSide = 'buy' | 'sell'
+
+export type OkxTradeSide = OkxSide | undefined
 
 export const OkxSideMap: { [key: string]: Side } = {
-    'BUY': 'Buy',
-    'SELL': 'Sell'
+    'buy': 'Buy',
+    'sell': 'Sell'
 }
 
 export const OkxInvertedSideMap: { [key: string]: OkxSide } = {
-    'Buy': 'BUY',
-    'Sell': 'SELL'
+    'Buy': 'buy',
+    'Sell': 'sell'
+}
+
+export type OkxOrderType = 'limit' | 'market' | 'post_only' | 'ioc' | 'fok' | 'optimal_limit_ioc'
+
+// OKX only accepts optimal_limit_ioc for futures and swaps, OptimalLimitImmediateOrCancel is rejected
+// locally instead of sending an order spot would refuse
+export const OkxOrderTypeMap: { [key in OrderType]?: OkxOrderType } = {
+    'Limit': 'limit',
+    'Market': 'market',
+    'LimitMaker': 'post_only',
+    'ImmediateOrCancel': 'ioc',
+    'FillOrKill': 'fok',
+}
+
+// order types executed at whatever the book offers, they carry no price
+export const isMarketOrderType = (type: OrderType): boolean => {
+    return type === 'Market' || type === 'OptimalLimitImmediateOrCancel'
+}
+
+// order types that never rest on the book
+export const isImmediateOrderType = (type: OrderType): boolean => {
+    return isMarketOrderType(type) || type === 'ImmediateOrCancel' || type === 'FillOrKill'
+}
+
+// OKX accepts 1 to 32 letters and digits starting with a letter
+const OkxClientOrderIdFormat = /^[a-zA-Z][a-zA-Z0-9]{0,31}$/
+
+// other ids are hashed so the same sklOrderId always maps to the same clOrdId
+export const getOkxClientOrderId = (sklOrderId: string): string => {
+    if (OkxClientOrderIdFormat.test(sklOrderId)) {
+        return sklOrderId
+    }
+    return `skl${createHash('sha256').update(sklOrderId).digest('hex').slice(0, 29)}`
 }
 
 export const getOkxSymbol = (symbolGroup: ConnectorGroup, connectorConfig: ConnectorConfiguration): string => {
-    return `${symbolGroup.name}${connectorConfig.quoteAsset}`
-}
\ No newline at end of file
+    return `${symbolGroup.name}-${connectorConfig.quoteAsset}`
+}
+
+// envelope codes for which OKX still returns per order results (sCode/sMsg) in data
+export const OkxOrderResultCodes = ['0', '1', '2']
+
+// exchange time of the latest item in a push, candles carry their bar start instead and are skipped
+export const getOkxMessageTime = (data: any[] | undefined): number | undefined => {
+    const item = data?.[data.length - 1]
+    if (item === undefined || Array.isArray(item)) {
+        return undefined
+    }
+    const time = item.ts ?? item.uTime ?? item.pTime
+    return time === undefined ? undefined : parseInt(time)
+}
+
+// websocket login uses unix seconds, unlike the ISO timestamps of REST
+export const createOkxLoginMessage = (credential: Credential): object => {
+    const timestamp = Math.floor(Date.now() / 1000).toString()
+    const sign = createHmac('sha256', credential.secret)
+        .update(`${timestamp}GET/users/self/verify`)
+        .digest('base64')
+    return {
+        op: 'login',
+        args: [{
+            apiKey: credential.key,
+            passphrase: credential.passphrase,
+            timestamp,
+            sign,
+        }],
+    }
+}
@@ -1,7 +1,27 @@
-import {ConnectorConfiguration, ConnectorGroup, Credential, ConnectorFactory } from "../../types";
+import { ConnectorFactory, PublicExchangeConnector, Serializable } from "../../types";
+import { loadConnectorSettings } from "../../util/config";
+import { getCredentialProvider } from "../../util/credentials";
+import { Logger } from "../../util/logging";
+import "..";
+
+const logger = Logger.getInstance('public-connector-main')
+
 // In public-connector-main.ts
+const settings = loadConnectorSettings(process.argv[2] ?? 'config.json')
 const connectorInstance: PublicExchangeConnector = ConnectorFactory.getPublicConnector(
-    ConnectorGroup,
-    ConnectorConfiguration,
-    Credential
-);
\ No newline at end of file
+    settings.group,
+    settings.config,
+    getCredentialProvider(settings)
+);
+
+connectorInstance.connect((messages: Serializable[]) => {
+    messages.forEach((message: Serializable) => logger.log(JSON.stringify(message)))
+}).catch((error: Error) => {
+    logger.error('Error connecting:', error)
+    process.exit(1)
+});
+
+process.on('SIGINT', async () => {
+    await connectorInstance.stop()
+    process.exit(0)
+});
@@ -0,0 +1,228 @@
+/// <reference lib="es2018.asynciterable" />
+import { Serializable } from '../types'
+import { Logger } from '../util/logging'
+
+export type SklEventType = Serializable['event']
+
+export type SklEventOf<E extends SklEventType> = Extract<Serializable, { event: E }>
+
+// what a full consumer queue does with the next event:
+// DropOldest drops the oldest queued event, ConflateTopOfBook replaces the queued TopOfBook of
+// the same symbol and otherwise drops the oldest, Block pauses the sources until the queue drains
+export type OverflowPolicy = 'DropOldest' | 'ConflateTopOfBook' | 'Block'
+
+// anything with a connector's connect, both connector interfaces qualify
+export interface EventSource {
+    connect(onMessage: (messages: Serializable[]) => void): Promise<any>;
+    // stop reading from the exchange while a Block consumer is full
+    pause?(): void;
+    resume?(): void;
+}
+
+export interface ConsumerOptions<E extends SklEventType> {
+    // every event type when unset
+    events?: E[];
+    // every symbol when unset
+    symbols?: string[];
+    bufferSize?: number;
+    overflow?: OverflowPolicy;
+}
+
+interface QueuedEvent<T> {
+    event: T;
+}
+
+const DefaultBufferSize = 10000
+// dequeued slots are only compacted away once there are this many
+const QueueCompactSize = 1024
+
+const logger = Logger.getInstance('event-stream')
+
+// One consumer's bounded queue, read with next() or for await.
+export class EventConsumer<T extends Serializable> implements AsyncIterableIterator<T> {
+
+    public dropped = 0
+    private queue: QueuedEvent<T>[] = []
+    private head = 0
+    // symbol -> queued TopOfBook, for conflation
+    private queuedTopOfBook: Map<string, QueuedEvent<T>> = new Map()
+    private waiting: ((result: IteratorResult<T>) => void)[] = []
+    private events: Set<string> | undefined
+    private symbols: Set<string> | undefined
+    private bufferSize: number
+    private overflowing = false
+    private closed = false
+
+    constructor(public overflow: OverflowPolicy, options: ConsumerOptions<SklEventType>, private onChange: (consumer: EventConsumer<T>) => void) {
+        this.events = options.events ? new Set(options.events) : undefined
+        this.symbols = options.symbols ? new Set(options.symbols) : undefined
+        this.bufferSize = options.bufferSize ?? DefaultBufferSize
+    }
+
+    public get size(): number {
+        return this.queue.length - this.head
+    }
+
+    public isFull(): boolean {
+        return this.size >= this.bufferSize
+    }
+
+    // Block consumers resume their sources once half the queue is free
+    public isDrained(): boolean {
+        return this.size <= this.bufferSize / 2
+    }
+
+    public isClosed(): boolean {
+        return this.closed
+    }
+
+    public matches(event: Serializable): boolean {
+        return (this.events === undefined || this.events.has(event.event))
+            && (this.symbols === undefined || this.symbols.has(event.symbol))
+    }
+
+    public push(event: T) {
+        const self = this
+        if (self.closed) {
+            return
+        }
+        const waiting = self.waiting.shift()
+        if (waiting !== undefined) {
+            waiting({ value: event, done: false })
+            return
+        }
+        if (self.overflow === 'ConflateTopOfBook' && event.event === 'TopOfBook') {
+            const queued = self.queuedTopOfBook.get(event.symbol)
+            if (queued !== undefined) {
+                queued.event = event
+                return
+            }
+        }
+        if (self.isFull() && self.overflow !== 'Block') {
+            self.dropOldest()
+        }
+        const queued = { event }
+        self.queue.push(queued)
+        if (self.overflow === 'ConflateTopOfBook' && event.event === 'TopOfBook') {
+            self.queuedTopOfBook.set(event.symbol, queued)
+        }
+    }
+
+    public next(): Promise<IteratorResult<T>> {
+        const self = this
+        if (self.size > 0) {
+            const event = self.shift()
+            // warn again the next time the queue overflows
+            self.overflowing = false
+            if (self.overflow === 'Block' && self.isDrained()) {
+                self.onChange(self)
+            }
+            return Promise.resolve({ value: event, done: false })
+        }
+        if (self.closed) {
+            return Promise.resolve({ value: undefined, done: true })
+        }
+        return new Promise((resolve) => self.waiting.push(resolve))
+    }
+
+    // ending a for await loop early closes the consumer
+    public return(): Promise<IteratorResult<T>> {
+        this.close()
+        return Promise.resolve({ value: undefined, done: true })
+    }
+
+    public [Symbol.asyncIterator](): AsyncIterableIterator<T> {
+        return this
+    }
+
+    // queued events can still be read, then the iteration ends
+    public close() {
+        const self = this
+        if (self.closed) {
+            return
+        }
+        self.closed = true
+        self.waiting.forEach((resolve) => resolve({ value: undefined, done: true }))
+        self.waiting = []
+        self.onChange(self)
+    }
+
+    private shift(): T {
+        const self = this
+        const queued = self.queue[self.head++]
+        if (queued.event.event === 'TopOfBook' && self.queuedTopOfBook.get(queued.event.symbol) === queued) {
+            self.queuedTopOfBook.delete(queued.event.symbol)
+        }
+        if (self.head >= QueueCompactSize && self.head * 2 >= self.queue.length) {
+            self.queue = self.queue.slice(self.head)
+            self.head = 0
+        }
+        return queued.event
+    }
+
+    private dropOldest() {
+        const self = this
+        if (!self.overflowing) {
+            self.overflowing = true
+            logger.warn(`Consumer queue full at ${self.bufferSize} events, dropping the oldest (${self.overflow})`)
+        }
+        self.dropped++
+        self.shift()
+    }
+}
+
+// Fans the events of one or more connectors out to any number of consumers, each
+// with its own filter and bounded queue, so a slow consumer can't hold up the others.
+export class EventStream {
+
+    private consumers: Set<EventConsumer<any>> = new Set()
+    private sources: EventSource[] = []
+    private paused = false
+
+    // connects the source with the stream as its onMessage
+    public attach(source: EventSource): Promise<any> {
+        const self = this
+        self.sources.push(source)
+        return source.connect((messages: Serializable[]) => self.publish(messages))
+    }
+
+    public subscribe<E extends SklEventType = SklEventType>(options: ConsumerOptions<E> = {}): EventConsumer<SklEventOf<E>> {
+        const self = this
+        const consumer = new EventConsumer<SklEventOf<E>>(options.overflow ?? 'DropOldest', options, () => self.updateBackpressure())
+        self.consumers.add(consumer)
+        return consumer
+    }
+
+    public publish(messages: Serializable[]) {
+        const self = this
+        messages.forEach((message: Serializable) => {
+            self.consumers.forEach((consumer: EventConsumer<any>) => {
+                if (consumer.matches(message)) {
+                    consumer.push(message)
+                }
+            })
+        })
+        self.updateBackpressure()
+    }
+
+    public close() {
+        Array.from(this.consumers).forEach((consumer: EventConsumer<any>) => consumer.close())
+    }
+
+    private updateBackpressure() {
+        const self = this
+        Array.from(self.consumers)
+            .filter((consumer: EventConsumer<any>) => consumer.isClosed())
+            .forEach((consumer: EventConsumer<any>) => self.consumers.delete(consumer))
+        const blocking = Array.from(self.consumers).filter((consumer: EventConsumer<any>) => consumer.overflow === 'Block')
+        if (!self.paused && blocking.some((consumer: EventConsumer<any>) => consumer.isFull())) {
+            logger.warn('A blocking consumer is full, pausing sources')
+            self.paused = true
+            self.sources.forEach((source: EventSource) => source.pause?.())
+        } else if (self.paused && blocking.every((consumer: EventConsumer<any>) => consumer.isDrained())) {
+            logger.log('Blocking consumers drained, resuming sources')
+            self.paused = false
+            self.sources.forEach((source: EventSource) => source.resume?.())
+        }
+    }
+}
@@ -0,0 +1,147 @@
+import { Candle, ConnectorType, Trade } from '../types'
+import { Logger } from '../util/logging'
+
+interface CandleState {
+    symbol: string;
+    interval: string;
+    duration: number;
+    // the bar being built, undefined until the first trade
+    candle?: Candle;
+}
+
+const CandleIntervalUnits: { [unit: string]: number } = {
+    s: 1000,
+    m: 60 * 1000,
+    H: 60 * 60 * 1000,
+    D: 24 * 60 * 60 * 1000,
+}
+
+const MinCandleDuration = CandleIntervalUnits['s']
+const MaxCandleDuration = CandleIntervalUnits['D']
+// flat bars emitted for one gap in the trades, older ones are skipped
+const MaxFlatCandles = 100
+
+const logger = Logger.getInstance('candle-aggregator')
+
+// OKX bar notation: 1s, 15s, 1m, 5m, 1H, 4H, 1D
+export const getCandleDuration = (interval: string): number => {
+    const match = /^(\d+)([smHD])$/.exec(interval)
+    const duration = match ? parseInt(match[1]) * CandleIntervalUnits[match[2]] : NaN
+    if (!(duration >= MinCandleDuration && duration <= MaxCandleDuration)) {
+        throw new Error(`Unsupported candle interval ${interval}, expected 1s to 1D`)
+    }
+    return duration
+}
+
+// Builds candles from trades. Bars are aligned to UTC and closed on their time
+// boundary; intervals without trades close as flat bars at the previous close,
+// only the last MaxFlatCandles of them after a long gap.
+export class CandleAggregator {
+
+    private states: Map<string, CandleState> = new Map()
+    private durations: Map<string, number> = new Map()
+    // exchange time of the last trade and the local time it was seen, used as the clock between trades
+    private lastTradeTime = 0
+    private lastTradeSeenAt = 0
+
+    constructor(private connectorType: ConnectorType, intervals: string[], private grace: number = 250) {
+        const self = this
+        intervals.forEach((interval: string) => self.durations.set(interval, getCandleDuration(interval)))
+    }
+
+    // returns the bars closed up to and including the trade's time
+    public addTrade(trade: Trade): Candle[] {
+        const self = this
+        self.lastTradeTime = Math.max(self.lastTradeTime, trade.timestamp)
+        self.lastTradeSeenAt = Date.now()
+        const closed: Candle[] = []
+        self.durations.forEach((duration: number, interval: string) => {
+            const state = self.getState(trade.symbol, interval, duration)
+            closed.push(...self.closeCandles(state, trade.timestamp))
+            const start = trade.timestamp - trade.timestamp % duration
+            if (state.candle === undefined) {
+                state.candle = self.createCandle(state, start, trade.price)
+            } else if (trade.timestamp < state.candle.timestamp) {
+                logger.warn(`Dropping late ${trade.symbol} trade at ${trade.timestamp} for closed ${interval} bar`)
+                return
+            }
+            const candle = state.candle
+            // bars carried over at the previous close open at their first trade
+            if (candle.volume === 0) {
+                candle.open = candle.high = candle.low = trade.price
+            }
+            candle.high = Math.max(candle.high, trade.price)
+            candle.low = Math.min(candle.low, trade.price)
+            candle.close = trade.price
+            candle.volume += trade.size
+        })
+        return closed
+    }
+
+    // closes every bar whose interval has ended, allowing a grace period for trades still in flight
+    public closeElapsed(now: number = Date.now()): Candle[] {
+        const self = this
+        if (self.lastTradeSeenAt === 0) {
+            return []
+        }
+        const time = self.lastTradeTime + (now - self.lastTradeSeenAt) - self.grace
+        return Array.from(self.states.values()).flatMap((state: CandleState) => self.closeCandles(state, time))
+    }
+
+    // local time at which the next bar closes
+    public nextClose(): number | undefined {
+        const self = this
+        const ends = Array.from(self.states.values())
+            .filter((state: CandleState) => state.candle !== undefined)
+            .map((state: CandleState) => state.candle!.timestamp + state.duration)
+        if (ends.length === 0) {
+            return undefined
+        }
+        return Math.min(...ends) - self.lastTradeTime + self.lastTradeSeenAt + self.grace
+    }
+
+    private getState(symbol: string, interval: string, duration: number): CandleState {
+        const key = `${symbol}:${interval}`
+        let state = this.states.get(key)
+        if (state === undefined) {
+            state = { symbol, interval, duration }
+            this.states.set(key, state)
+        }
+        return state
+    }
+
+    private closeCandles(state: CandleState, time: number): Candle[] {
+        const self = this
+        const closed: Candle[] = []
+        while (state.candle !== undefined && time >= state.candle.timestamp + state.duration) {
+            const candle = state.candle
+            closed.push({ ...candle, closed: true })
+            let start = candle.timestamp + state.duration
+            const elapsed = Math.floor((time - start) / state.duration)
+            if (elapsed > MaxFlatCandles) {
+                const skipped = elapsed - MaxFlatCandles
+                logger.warn(`Skipping ${skipped} flat ${state.interval} bars of ${state.symbol} after a gap in trades`)
+                start += skipped * state.duration
+            }
+            state.candle = self.createCandle(state, start, candle.close)
+        }
+        return closed
+    }
+
+    private createCandle(state: CandleState, start: number, price: number): Candle {
+        return {
+            symbol: state.symbol,
+            connectorType: this.connectorType,
+            event: 'Candle',
+            timestamp: start,
+            interval: state.interval,
+            source: 'Trades',
+            open: price,
+            high: price,
+            low: price,
+            close: price,
+            volume: 0,
+            closed: false,
+        }
+    }
+}
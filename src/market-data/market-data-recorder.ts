@@ -0,0 +1,129 @@
+import * as fs from 'fs'
+import * as path from 'path'
+import * as zlib from 'zlib'
+import { RecordingConfiguration } from '../types'
+import { Logger } from '../util/logging'
+
+export interface RecordedFrame {
+    // local receive time in ms
+    receivedAt: number;
+    // the frame exactly as it came off the socket
+    frame: string;
+}
+
+const RecordingFileSuffix = '.jsonl.gz'
+
+const logger = Logger.getInstance('market-data-recorder')
+
+// Writes raw frames as gzipped JSONL, one frame per line, starting a new
+// file once the current one is too large or too old.
+export class MarketDataRecorder {
+
+    private stream: zlib.Gzip | undefined
+    private fileStream: fs.WriteStream | undefined
+    private bytesWritten = 0
+    private openedAt = 0
+    private maxFileSize: number
+    private rotateInterval: number
+    // set after a write error, frames are dropped from then on
+    private failed = false
+    // set by close(), frames that arrive later are dropped instead of starting a new file
+    private closed = false
+
+    constructor(private config: RecordingConfiguration, private prefix: string) {
+        this.maxFileSize = config.maxFileSize ?? 100 * 1024 * 1024
+        this.rotateInterval = config.rotateInterval ?? 60 * 60 * 1000
+    }
+
+    public record(frame: string, receivedAt: number = Date.now()) {
+        const self = this
+        if (self.failed || self.closed) {
+            return
+        }
+        if (self.stream === undefined || self.bytesWritten >= self.maxFileSize || receivedAt - self.openedAt >= self.rotateInterval) {
+            self.rotate(receivedAt)
+        }
+        const line = `${JSON.stringify({ receivedAt, frame })}\n`
+        self.bytesWritten += line.length
+        self.stream!.write(line)
+    }
+
+    public close(): Promise<void> {
+        this.closed = true
+        return this.endFile()
+    }
+
+    // resolves once everything is flushed to the file
+    private endFile(): Promise<void> {
+        const stream = this.stream
+        const fileStream = this.fileStream
+        this.stream = undefined
+        this.fileStream = undefined
+        if (stream === undefined || fileStream === undefined) {
+            return Promise.resolve()
+        }
+        return new Promise((resolve) => {
+            fileStream.on('close', () => resolve())
+            stream.end()
+        })
+    }
+
+    private rotate(now: number) {
+        const self = this
+        self.endFile()
+        fs.mkdirSync(self.config.directory, { recursive: true })
+        // file names sort in recording order
+        const name = `${self.prefix}-${new Date(now).toISOString().replace(/[:.]/g, '-')}${RecordingFileSuffix}`
+        const file = path.join(self.config.directory, name)
+        const stream = zlib.createGzip()
+        const fileStream = fs.createWriteStream(file)
+        stream.pipe(fileStream)
+        stream.on('error', (error: Error) => self.fail(file, error))
+        // e.g. a full disk or a directory that isn't writable, the connector keeps running without recording
+        fileStream.on('error', (error: Error) => self.fail(file, error))
+        self.stream = stream
+        self.fileStream = fileStream
+        self.bytesWritten = 0
+        self.openedAt = now
+        logger.log(`Recording to ${file}`)
+    }
+
+    private fail(file: string, error: Error) {
+        const self = this
+        if (self.failed) {
+            return
+        }
+        logger.error(`Error writing ${file}, recording stopped:`, error)
+        self.failed = true
+        self.stream?.destroy()
+        self.fileStream?.destroy()
+        self.stream = undefined
+        self.fileStream = undefined
+    }
+}
+
+// every recording file under a path, oldest first
+export const getRecordingFiles = (recordingPath: string): string[] => {
+    if (!fs.statSync(recordingPath).isDirectory()) {
+        return [recordingPath]
+    }
+    return fs.readdirSync(recordingPath)
+        .filter((name: string) => name.endsWith(RecordingFileSuffix))
+        .sort()
+        .map((name: string) => path.join(recordingPath, name))
+}
+
+// files left behind by a crash are truncated, whatever was flushed is still read
+export const readRecordingFile = (file: string): RecordedFrame[] => {
+    const lines = zlib.gunzipSync(fs.readFileSync(file), { finishFlush: zlib.constants.Z_SYNC_FLUSH })
+        .toString()
+        .split('\n')
+    return lines.flatMap((line: string) => {
+        try {
+            return line.length > 0 ? [JSON.parse(line) as RecordedFrame] : []
+        } catch (error) {
+            logger.warn(`Skipping incomplete line in ${file}`)
+            return []
+        }
+    })
+}
@@ -0,0 +1,167 @@
+import { MetricsConfiguration, Serializable } from '../types'
+import { Logger } from '../util/logging'
+import { MetricLabels, MetricsRegistry } from './metrics-registry'
+import { MetricsServer } from './metrics-server'
+
+export interface StaleFeed {
+    connector: string;
+    symbol: string;
+    channel: string;
+    // ms since the last message
+    age: number;
+}
+
+const DefaultStaleAfter = 60000
+const FeedCheckInterval = 1000
+
+const registry = MetricsRegistry.getInstance()
+
+const messages = registry.counter('skl_messages_total', 'Exchange messages received per channel')
+const events = registry.counter('skl_events_total', 'SKL events emitted per channel and event type')
+const exchangeLatency = registry.histogram('skl_exchange_latency_seconds', 'Time from the exchange timestamp of a message to its receipt')
+const processingTime = registry.histogram('skl_processing_seconds', 'Time spent turning an exchange message into SKL events')
+const reconnects = registry.counter('skl_reconnects_total', 'Websocket reconnects per session')
+const orderRoundTrip = registry.histogram('skl_order_round_trip_seconds', 'Time from sending an order operation to the exchange response')
+const restErrors = registry.counter('skl_rest_errors_total', 'Failed REST requests per path and error')
+const feedAge = registry.gauge('skl_feed_last_message_age_seconds', 'Time since the last message on a watched channel')
+const feedStale = registry.gauge('skl_feed_stale', '1 while a watched channel has been silent longer than its threshold')
+
+const logger = Logger.getInstance('connector-metrics')
+
+// Metrics of one connector instance, labelled with the connector and its symbol.
+// Nothing is recorded unless the connector's configuration has metrics.
+export class ConnectorMetrics {
+
+    private labels: MetricLabels
+    // channel -> local time of the last message, for watched channels only
+    private lastMessageAt: Map<string, number> = new Map()
+    private stale: Set<string> = new Set()
+    private timer: NodeJS.Timeout | undefined
+    private server: MetricsServer | undefined
+
+    constructor(public connector: string, public symbol: string, private config: MetricsConfiguration | undefined) {
+        this.labels = { connector, symbol }
+    }
+
+    public isEnabled(): boolean {
+        return this.config !== undefined
+    }
+
+    public start() {
+        const self = this
+        if (self.config === undefined || self.timer !== undefined) {
+            return
+        }
+        self.timer = setInterval(() => self.checkFeeds(), FeedCheckInterval)
+        if (self.config.port !== undefined) {
+            self.server = MetricsServer.acquire(self.config.port, self.config.host)
+            self.server.register(self)
+        }
+    }
+
+    public stop() {
+        const self = this
+        clearInterval(self.timer)
+        self.timer = undefined
+        self.server?.unregister(self)
+        self.server = undefined
+        if (self.config !== undefined) {
+            registry.remove(self.labels)
+        }
+    }
+
+    // channels expected to stream continuously, silence on them raises a stale feed alert
+    public watch(channels: string[], now: number = Date.now()) {
+        const self = this
+        channels.forEach((channel: string) => {
+            if (!self.lastMessageAt.has(channel)) {
+                self.lastMessageAt.set(channel, now)
+            }
+        })
+    }
+
+    public unwatch(channels: string[]) {
+        const self = this
+        channels.forEach((channel: string) => {
+            self.lastMessageAt.delete(channel)
+            self.stale.delete(channel)
+            feedAge.remove({ ...self.labels, channel })
+            feedStale.remove({ ...self.labels, channel })
+        })
+    }
+
+    // exchangeTime is the ms timestamp OKX put on the message
+    public recordMessage(channel: string, exchangeTime?: number, receivedAt: number = Date.now()) {
+        const self = this
+        if (self.config === undefined) {
+            return
+        }
+        const labels = { ...self.labels, channel }
+        messages.inc(labels)
+        if (exchangeTime !== undefined && !Number.isNaN(exchangeTime)) {
+            exchangeLatency.observe(labels, Math.max(0, receivedAt - exchangeTime) / 1000)
+        }
+        if (self.lastMessageAt.has(channel)) {
+            self.lastMessageAt.set(channel, receivedAt)
+        }
+    }
+
+    // runs the conversion of one message, timing it and counting the events it produced
+    public measure(channel: string, convert: () => Serializable[]): Serializable[] {
+        const self = this
+        if (self.config === undefined) {
+            return convert()
+        }
+        const started = process.hrtime.bigint()
+        const converted = convert()
+        processingTime.observe({ ...self.labels, channel }, Number(process.hrtime.bigint() - started) / 1e9)
+        converted.forEach((event: Serializable) => events.inc({ ...self.labels, channel, event: event.event }))
+        return converted
+    }
+
+    public recordReconnect(session: string) {
+        if (this.config !== undefined) {
+            reconnects.inc({ ...this.labels, session })
+        }
+    }
+
+    public recordOrderRoundTrip(op: string, duration: number) {
+        if (this.config !== undefined) {
+            orderRoundTrip.observe({ ...this.labels, op }, duration / 1000)
+        }
+    }
+
+    public recordRestError(path: string, error: string) {
+        if (this.config !== undefined) {
+            restErrors.inc({ ...this.labels, path, error })
+        }
+    }
+
+    public getStaleFeeds(now: number = Date.now()): StaleFeed[] {
+        const self = this
+        return Array.from(self.stale).map((channel: string) => ({
+            connector: self.connector,
+            symbol: self.symbol,
+            channel,
+            age: now - self.lastMessageAt.get(channel)!,
+        }))
+    }
+
+    public checkFeeds(now: number = Date.now()) {
+        const self = this
+        self.lastMessageAt.forEach((lastMessageAt: number, channel: string) => {
+            const labels = { ...self.labels, channel }
+            const age = now - lastMessageAt
+            const threshold = self.config?.staleThresholds?.[channel] ?? self.config?.staleAfter ?? DefaultStaleAfter
+            feedAge.set(labels, age / 1000)
+            feedStale.set(labels, age > threshold ? 1 : 0)
+            if (age > threshold && !self.stale.has(channel)) {
+                self.stale.add(channel)
+                logger.warn(`Stale feed: no ${channel} message for ${self.symbol} on ${self.connector} in ${age}ms`)
+            } else if (age <= threshold && self.stale.has(channel)) {
+                self.stale.delete(channel)
+                logger.log(`Feed recovered: ${channel} for ${self.symbol} on ${self.connector}`)
+            }
+        })
+    }
+}
@@ -0,0 +1,215 @@
+export type MetricLabels = { [name: string]: string }
+
+type MetricType = 'counter' | 'gauge' | 'histogram'
+
+interface HistogramSeries {
+    labels: MetricLabels;
+    buckets: number[];
+    sum: number;
+    count: number;
+}
+
+// seconds, from sub-millisecond processing to multi second round trips
+const DefaultBuckets = [0.0005, 0.001, 0.0025, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10]
+
+const getSeriesKey = (labels: MetricLabels): string => {
+    return Object.keys(labels).sort().map((name: string) => `${name}=${labels[name]}`).join(',')
+}
+
+// series labels include every given label
+const matchesLabels = (series: MetricLabels, labels: MetricLabels): boolean => {
+    return Object.keys(labels).every((name: string) => series[name] === labels[name])
+}
+
+const formatLabels = (labels: MetricLabels): string => {
+    const names = Object.keys(labels)
+    if (names.length === 0) {
+        return ''
+    }
+    const pairs = names.map((name: string) => `${name}="${labels[name].replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`)
+    return `{${pairs.join(',')}}`
+}
+
+const formatValue = (value: number): string => {
+    if (value === Infinity) {
+        return '+Inf'
+    }
+    return Number.isNaN(value) ? 'NaN' : String(value)
+}
+
+interface Metric {
+    name: string;
+    type: MetricType;
+    render(): string[];
+    remove(labels: MetricLabels): void;
+}
+
+const formatHeader = (metric: Metric, help: string): string[] => {
+    return [`# HELP ${metric.name} ${help}`, `# TYPE ${metric.name} ${metric.type}`]
+}
+
+export class Counter implements Metric {
+
+    public type: MetricType = 'counter'
+    private values: Map<string, { labels: MetricLabels, value: number }> = new Map()
+
+    constructor(public name: string, private help: string) {}
+
+    public inc(labels: MetricLabels = {}, value: number = 1) {
+        const key = getSeriesKey(labels)
+        const series = this.values.get(key)
+        if (series === undefined) {
+            this.values.set(key, { labels, value })
+        } else {
+            series.value += value
+        }
+    }
+
+    public get(labels: MetricLabels = {}): number {
+        return this.values.get(getSeriesKey(labels))?.value ?? 0
+    }
+
+    public remove(labels: MetricLabels) {
+        this.values.forEach((series, key: string) => {
+            if (matchesLabels(series.labels, labels)) {
+                this.values.delete(key)
+            }
+        })
+    }
+
+    public render(): string[] {
+        const lines = Array.from(this.values.values()).map((series) => `${this.name}${formatLabels(series.labels)} ${formatValue(series.value)}`)
+        return lines.length > 0 ? [...formatHeader(this, this.help), ...lines] : []
+    }
+}
+
+export class Gauge implements Metric {
+
+    public type: MetricType = 'gauge'
+    private values: Map<string, { labels: MetricLabels, value: number }> = new Map()
+
+    constructor(public name: string, private help: string) {}
+
+    public set(labels: MetricLabels, value: number) {
+        this.values.set(getSeriesKey(labels), { labels, value })
+    }
+
+    public get(labels: MetricLabels = {}): number | undefined {
+        return this.values.get(getSeriesKey(labels))?.value
+    }
+
+    public remove(labels: MetricLabels) {
+        this.values.forEach((series, key: string) => {
+            if (matchesLabels(series.labels, labels)) {
+                this.values.delete(key)
+            }
+        })
+    }
+
+    public render(): string[] {
+        const lines = Array.from(this.values.values()).map((series) => `${this.name}${formatLabels(series.labels)} ${formatValue(series.value)}`)
+        return lines.length > 0 ? [...formatHeader(this, this.help), ...lines] : []
+    }
+}
+
+export class Histogram implements Metric {
+
+    public type: MetricType = 'histogram'
+    private series: Map<string, HistogramSeries> = new Map()
+
+    constructor(public name: string, private help: string, private bounds: number[] = DefaultBuckets) {}
+
+    public observe(labels: MetricLabels, value: number) {
+        const key = getSeriesKey(labels)
+        let series = this.series.get(key)
+        if (series === undefined) {
+            series = { labels, buckets: this.bounds.map(() => 0), sum: 0, count: 0 }
+            this.series.set(key, series)
+        }
+        // buckets are stored per bound and made cumulative when rendered
+        const index = this.bounds.findIndex((bound: number) => value <= bound)
+        if (index >= 0) {
+            series.buckets[index]++
+        }
+        series.sum += value
+        series.count++
+    }
+
+    public remove(labels: MetricLabels) {
+        this.series.forEach((series, key: string) => {
+            if (matchesLabels(series.labels, labels)) {
+                this.series.delete(key)
+            }
+        })
+    }
+
+    public render(): string[] {
+        const self = this
+        if (self.series.size === 0) {
+            return []
+        }
+        const lines = formatHeader(self, self.help)
+        self.series.forEach((series: HistogramSeries) => {
+            let cumulative = 0
+            self.bounds.forEach((bound: number, index: number) => {
+                cumulative += series.buckets[index]
+                lines.push(`${self.name}_bucket${formatLabels({ ...series.labels, le: formatValue(bound) })} ${cumulative}`)
+            })
+            lines.push(`${self.name}_bucket${formatLabels({ ...series.labels, le: '+Inf' })} ${series.count}`)
+            lines.push(`${self.name}_sum${formatLabels(series.labels)} ${formatValue(series.sum)}`)
+            lines.push(`${self.name}_count${formatLabels(series.labels)} ${series.count}`)
+        })
+        return lines
+    }
+}
+
+// Process wide metrics, rendered in the Prometheus text exposition format.
+// Metrics are created on first use and shared by name.
+export class MetricsRegistry {
+
+    private static instance: MetricsRegistry | undefined
+
+    private metrics: Map<string, Metric> = new Map()
+
+    public static getInstance(): MetricsRegistry {
+        if (MetricsRegistry.instance === undefined) {
+            MetricsRegistry.instance = new MetricsRegistry()
+        }
+        return MetricsRegistry.instance
+    }
+
+    public counter(name: string, help: string): Counter {
+        return this.getOrCreate(name, () => new Counter(name, help), Counter)
+    }
+
+    public gauge(name: string, help: string): Gauge {
+        return this.getOrCreate(name, () => new Gauge(name, help), Gauge)
+    }
+
+    public histogram(name: string, help: string, buckets?: number[]): Histogram {
+        return this.getOrCreate(name, () => new Histogram(name, help, buckets), Histogram)
+    }
+
+    // drops every series carrying these labels, e.g. when a connector stops
+    public remove(labels: MetricLabels) {
+        this.metrics.forEach((metric: Metric) => metric.remove(labels))
+    }
+
+    public render(): string {
+        const lines = Array.from(this.metrics.values()).flatMap((metric: Metric) => metric.render())
+        return lines.length > 0 ? `${lines.join('\n')}\n` : ''
+    }
+
+    private getOrCreate<T extends Metric>(name: string, create: () => T, type: new (...args: any[]) => T): T {
+        const metric = this.metrics.get(name)
+        if (metric === undefined) {
+            const created = create()
+            this.metrics.set(name, created)
+            return created
+        }
+        if (!(metric instanceof type)) {
+            throw new Error(`Metric ${name} is already registered as a ${metric.type}`)
+        }
+        return metric
+    }
+}
@@ -0,0 +1,63 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http'
+import { Logger } from '../util/logging'
+import { ConnectorMetrics } from './connector-metrics'
+import { MetricsRegistry } from './metrics-registry'
+
+const logger = Logger.getInstance('metrics-server')
+
+// Serves GET /metrics in the Prometheus text format and GET /health, which answers
+// 503 while any registered connector has a stale feed. Connectors configured with the
+// same port share one server, it is closed when the last of them unregisters.
+export class MetricsServer {
+
+    private static servers: Map<string, MetricsServer> = new Map()
+
+    private server: Server
+    private connectors: Set<ConnectorMetrics> = new Set()
+
+    private constructor(private key: string, port: number, host: string) {
+        const self = this
+        this.server = createServer((request: IncomingMessage, response: ServerResponse) => self.handle(request, response))
+        this.server.on('error', (error: Error) => logger.error(`Metrics server on ${key} failed: ${error.message}`))
+        this.server.listen(port, host, () => logger.log(`Serving metrics on http://${key}/metrics`))
+    }
+
+    public static acquire(port: number, host: string = '127.0.0.1'): MetricsServer {
+        const key = `${host}:${port}`
+        let server = MetricsServer.servers.get(key)
+        if (server === undefined) {
+            server = new MetricsServer(key, port, host)
+            MetricsServer.servers.set(key, server)
+        }
+        return server
+    }
+
+    public register(metrics: ConnectorMetrics) {
+        this.connectors.add(metrics)
+    }
+
+    public unregister(metrics: ConnectorMetrics) {
+        const self = this
+        self.connectors.delete(metrics)
+        if (self.connectors.size === 0) {
+            MetricsServer.servers.delete(self.key)
+            self.server.close()
+        }
+    }
+
+    private handle(request: IncomingMessage, response: ServerResponse) {
+        const path = new URL(request.url ?? '/', 'http://localhost').pathname
+        if (request.method !== 'GET') {
+            response.writeHead(405).end()
+        } else if (path === '/metrics') {
+            response.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' })
+            response.end(MetricsRegistry.getInstance().render())
+        } else if (path === '/health') {
+            const staleFeeds = Array.from(this.connectors).flatMap((metrics: ConnectorMetrics) => metrics.getStaleFeeds())
+            response.writeHead(staleFeeds.length > 0 ? 503 : 200, { 'Content-Type': 'application/json' })
+            response.end(JSON.stringify({ status: staleFeeds.length > 0 ? 'stale' : 'ok', staleFeeds }))
+        } else {
+            response.writeHead(404).end()
+        }
+    }
+}
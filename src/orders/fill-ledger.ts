@@ -0,0 +1,139 @@
+import { ConnectorType, OrderFill, PnlUpdate, Serializable, TopOfBook } from '../types'
+
+interface PositionState {
+    symbol: string;
+    connectorType: ConnectorType;
+    // signed, in the base asset, fees paid in the base asset are not taken off
+    position: number;
+    averageCost: number;
+    // net of fees
+    realizedPnl: number;
+    fees: number;
+    markPrice?: number;
+    fills: OrderFill[];
+}
+
+// Records our executions and keeps an average cost position per symbol.
+// Fees are valued in the quote asset at the fill price and taken from realized PnL.
+export class FillLedger {
+
+    private positions: Map<string, PositionState> = new Map()
+    // tradeId -> fill, the same execution can be reported by more than one channel
+    private trades: Map<string, OrderFill> = new Map()
+
+    constructor(private quoteAsset: string, private maxFills: number = 10000) {}
+
+    // returns false when the execution was already recorded
+    public record(fill: OrderFill): boolean {
+        const self = this
+        if (fill.tradeId) {
+            const recorded = self.trades.get(fill.tradeId)
+            if (recorded !== undefined) {
+                // the fills channel has no fees, the orders channel fills them in later
+                if (recorded.fee === undefined && fill.fee !== undefined) {
+                    recorded.fee = fill.fee
+                    recorded.feeCurrency = fill.feeCurrency
+                    self.applyFee(self.getState(fill), fill)
+                }
+                return false
+            }
+            self.trades.set(fill.tradeId, fill)
+        }
+
+        const state = self.getState(fill)
+        const quantity = fill.side === 'Buy' ? fill.size : -fill.size
+        if (state.position === 0 || Math.sign(state.position) === Math.sign(quantity)) {
+            const size = Math.abs(state.position) + fill.size
+            state.averageCost = (state.averageCost * Math.abs(state.position) + fill.price * fill.size) / size
+            state.position += quantity
+        } else {
+            const closed = Math.min(Math.abs(state.position), fill.size)
+            state.realizedPnl += closed * (fill.price - state.averageCost) * Math.sign(state.position)
+            const remaining = state.position + quantity
+            // a fill through zero opens the other side at the fill price
+            if (remaining === 0) {
+                state.averageCost = 0
+            } else if (Math.sign(remaining) !== Math.sign(state.position)) {
+                state.averageCost = fill.price
+            }
+            state.position = remaining
+        }
+        self.applyFee(state, fill)
+
+        state.fills.push(fill)
+        if (state.fills.length > self.maxFills) {
+            const dropped = state.fills.shift()!
+            if (dropped.tradeId) {
+                self.trades.delete(dropped.tradeId)
+            }
+        }
+        return true
+    }
+
+    public update(event: Serializable) {
+        if (event.event === 'TopOfBook') {
+            this.mark(event)
+        }
+    }
+
+    public mark(topOfBook: TopOfBook) {
+        const state = this.positions.get(topOfBook.symbol)
+        if (state !== undefined) {
+            state.markPrice = (topOfBook.bidPrice + topOfBook.askPrice) / 2
+        }
+    }
+
+    public getFills(symbol: string): OrderFill[] {
+        return [...(this.positions.get(symbol)?.fills ?? [])]
+    }
+
+    public getPnl(symbol: string, timestamp: number = Date.now()): PnlUpdate | undefined {
+        const state = this.positions.get(symbol)
+        if (state === undefined) {
+            return undefined
+        }
+        return {
+            symbol,
+            connectorType: state.connectorType,
+            event: 'PnlUpdate',
+            timestamp,
+            position: state.position,
+            averageCost: state.averageCost,
+            realizedPnl: state.realizedPnl,
+            unrealizedPnl: state.markPrice === undefined ? 0 : state.position * (state.markPrice - state.averageCost),
+            fees: state.fees,
+            markPrice: state.markPrice,
+        }
+    }
+
+    public getAllPnl(timestamp: number = Date.now()): PnlUpdate[] {
+        const self = this
+        return Array.from(self.positions.keys()).map((symbol: string) => self.getPnl(symbol, timestamp)!)
+    }
+
+    private applyFee(state: PositionState, fill: OrderFill) {
+        if (fill.fee === undefined) {
+            return
+        }
+        const fee = fill.feeCurrency === undefined || fill.feeCurrency === this.quoteAsset ? fill.fee : fill.fee * fill.price
+        state.realizedPnl += fee
+        state.fees -= fee
+    }
+
+    private getState(fill: OrderFill): PositionState {
+        let state = this.positions.get(fill.symbol)
+        if (state === undefined) {
+            state = {
+                symbol: fill.symbol,
+                connectorType: fill.connectorType,
+                position: 0,
+                averageCost: 0,
+                realizedPnl: 0,
+                fees: 0,
+                fills: [],
+            }
+            this.positions.set(fill.symbol, state)
+        }
+        return state
+    }
+}
@@ -0,0 +1,139 @@
+import { ConnectorType, OrderFill, OrderState, OrderStatusUpdate, Side } from '../types'
+import { Logger } from '../util/logging'
+
+export interface TrackedOrder {
+    symbol: string;
+    connectorType: ConnectorType;
+    orderId: string;
+    sklOrderId: string;
+    side: Side;
+    state: OrderState;
+    price: number;
+    size: number;
+    filledSize: number;
+    // average price of everything filled so far
+    filledPrice: number;
+    createdAt: number;
+    updatedAt: number;
+}
+
+export interface OrderStoreUpdate {
+    order: TrackedOrder;
+    fill?: OrderFill;
+}
+
+const OrderStateTransitions: { [key in OrderState]: OrderState[] } = {
+    'Placed': ['Placed', 'PartiallyFilled', 'Filled', 'Cancelled', 'Rejected'],
+    'PartiallyFilled': ['PartiallyFilled', 'Filled', 'Cancelled'],
+    'Filled': [],
+    'Cancelled': [],
+    'Rejected': [],
+}
+
+const OpenOrderStates: OrderState[] = ['Placed', 'PartiallyFilled']
+
+const logger = Logger.getInstance('order-store')
+
+// In memory view of our own orders, driven by OrderStatusUpdate events
+export class OrderStore {
+
+    private orders: Map<string, TrackedOrder> = new Map()
+    // sklOrderId -> orderId
+    private sklOrderIds: Map<string, string> = new Map()
+
+    constructor(private maxClosedOrders: number = 1000) {}
+
+    public apply(update: OrderStatusUpdate): OrderStoreUpdate | null {
+        const self = this
+        const existing = self.getOrder(update.orderId) ?? self.getOrder(update.sklOrderId)
+        const filledSize = isNaN(update.filled_size) ? 0 : update.filled_size
+        const filledPrice = isNaN(update.filled_price) ? 0 : update.filled_price
+
+        if (existing === undefined) {
+            const order: TrackedOrder = {
+                symbol: update.symbol,
+                connectorType: update.connectorType,
+                orderId: update.orderId,
+                sklOrderId: update.sklOrderId,
+                side: update.side,
+                state: update.state,
+                price: update.price,
+                size: update.size,
+                filledSize,
+                filledPrice,
+                createdAt: update.timestamp,
+                updatedAt: update.timestamp,
+            }
+            self.orders.set(order.orderId, order)
+            if (order.sklOrderId) {
+                self.sklOrderIds.set(order.sklOrderId, order.orderId)
+            }
+            self.pruneClosedOrders()
+            return { order: { ...order }, fill: self.createFill(order, 0, 0) }
+        }
+
+        if (!OrderStateTransitions[existing.state].includes(update.state)) {
+            logger.warn(`Rejected transition ${existing.state} -> ${update.state} for order ${existing.orderId}`)
+            return null
+        }
+        if (filledSize < existing.filledSize) {
+            logger.warn(`Rejected update for order ${existing.orderId}, filled size went from ${existing.filledSize} to ${filledSize}`)
+            return null
+        }
+
+        const previousFilledSize = existing.filledSize
+        const previousFilledPrice = existing.filledPrice
+        existing.state = update.state
+        existing.price = isNaN(update.price) ? existing.price : update.price
+        existing.size = isNaN(update.size) ? existing.size : update.size
+        existing.filledSize = filledSize
+        existing.filledPrice = filledPrice
+        existing.updatedAt = update.timestamp
+        return { order: { ...existing }, fill: self.createFill(existing, previousFilledSize, previousFilledPrice) }
+    }
+
+    // accepts either the exchange orderId or the sklOrderId
+    public getOrder(id: string): TrackedOrder | undefined {
+        return this.orders.get(id) ?? this.orders.get(this.sklOrderIds.get(id) ?? '')
+    }
+
+    public getOpenOrders(symbol?: string): TrackedOrder[] {
+        return Array.from(this.orders.values())
+            .filter((order: TrackedOrder) => OpenOrderStates.includes(order.state))
+            .filter((order: TrackedOrder) => symbol === undefined || order.symbol === symbol)
+            .map((order: TrackedOrder) => ({ ...order }))
+    }
+
+    public isOpen(order: TrackedOrder): boolean {
+        return OpenOrderStates.includes(order.state)
+    }
+
+    private createFill(order: TrackedOrder, previousFilledSize: number, previousFilledPrice: number): OrderFill | undefined {
+        const size = order.filledSize - previousFilledSize
+        if (size <= 0) {
+            return undefined
+        }
+        // price of just this execution, backed out of the change in average fill price
+        const price = (order.filledPrice * order.filledSize - previousFilledPrice * previousFilledSize) / size
+        return {
+            symbol: order.symbol,
+            connectorType: order.connectorType,
+            event: 'OrderFill',
+            orderId: order.orderId,
+            sklOrderId: order.sklOrderId,
+            side: order.side,
+            price,
+            size,
+            timestamp: order.updatedAt,
+        }
+    }
+
+    private pruneClosedOrders() {
+        const self = this
+        const closed = Array.from(self.orders.values()).filter((order: TrackedOrder) => !self.isOpen(order))
+        closed.slice(0, Math.max(0, closed.length - self.maxClosedOrders)).forEach((order: TrackedOrder) => {
+            self.orders.delete(order.orderId)
+            self.sklOrderIds.delete(order.sklOrderId)
+        })
+    }
+}
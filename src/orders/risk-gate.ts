@@ -0,0 +1,150 @@
+import { Order, OrderType, RiskConfiguration, Serializable, TopOfBook } from '../types'
+import { Logger } from '../util/logging'
+
+// account state the checks are evaluated against
+export interface RiskContext {
+    symbol: string;
+    openOrders: number;
+    baseBalance: number;
+    quoteBalance: number;
+}
+
+export interface RiskDecision {
+    order: Order;
+    // set when the order is rejected
+    reason?: string;
+}
+
+const RateWindow = 1000
+
+// order types sent without a price
+const MarketOrderTypes: OrderType[] = ['Market', 'OptimalLimitImmediateOrCancel']
+
+const logger = Logger.getInstance('risk-gate')
+
+// Pre-trade checks. Orders in one request are checked in sequence, each as if
+// the accepted orders before it had already been sent and filled.
+export class RiskGate {
+
+    private topOfBook: Map<string, TopOfBook> = new Map()
+    // send times of accepted orders within the rate window
+    private sentAt: number[] = []
+    private killReason: string | undefined
+
+    constructor(private limits: RiskConfiguration) {}
+
+    public update(event: Serializable) {
+        if (event.event === 'TopOfBook') {
+            this.topOfBook.set(event.symbol, event)
+        } else if (event.event === 'BookInvalidated') {
+            // orders that need prices are rejected until the book is rebuilt
+            this.topOfBook.delete(event.symbol)
+        }
+    }
+
+    public kill(reason: string) {
+        logger.warn(`Kill switch activated: ${reason}`)
+        this.killReason = reason
+    }
+
+    public release() {
+        logger.warn('Kill switch released')
+        this.killReason = undefined
+    }
+
+    public isKilled(): boolean {
+        return this.killReason !== undefined
+    }
+
+    // market data is needed for collars, inventory and the notional of market orders
+    public needsMarketData(): boolean {
+        const limits = this.limits
+        return limits.priceCollar !== undefined || limits.maxInventory !== undefined
+            || limits.minInventory !== undefined || limits.maxOrderNotional !== undefined
+    }
+
+    public check(orders: Order[], context: RiskContext, now: number = Date.now()): RiskDecision[] {
+        const self = this
+        self.sentAt = self.sentAt.filter((time: number) => now - time < RateWindow)
+        let openOrders = context.openOrders
+        let base = context.baseBalance
+        let quote = context.quoteBalance
+
+        return orders.map((order: Order) => {
+            const reason = self.getRejectionReason(order, context.symbol, openOrders, base, quote)
+            if (reason !== undefined) {
+                logger.warn(`Rejected ${order.side} ${order.quantity}@${order.price} on ${context.symbol}: ${reason}`)
+                return { order, reason }
+            }
+            const price = self.getOrderPrice(order, context.symbol) ?? 0
+            const direction = order.side === 'Buy' ? 1 : -1
+            base += direction * order.quantity
+            quote -= direction * order.quantity * price
+            openOrders++
+            self.sentAt.push(now)
+            return { order }
+        })
+    }
+
+    private getRejectionReason(order: Order, symbol: string, openOrders: number, base: number, quote: number): string | undefined {
+        const self = this
+        const limits = self.limits
+        if (self.killReason !== undefined) {
+            return `Kill switch active: ${self.killReason}`
+        }
+        if (limits.maxOrdersPerSecond !== undefined && self.sentAt.length >= limits.maxOrdersPerSecond) {
+            return `Order rate above ${limits.maxOrdersPerSecond} per second`
+        }
+        if (limits.maxOpenOrders !== undefined && openOrders >= limits.maxOpenOrders) {
+            return `Open orders at limit of ${limits.maxOpenOrders}`
+        }
+
+        const mid = self.getMid(symbol)
+        if (mid === undefined && self.needsMid(order)) {
+            return `No TopOfBook for ${symbol}`
+        }
+        const price = self.getOrderPrice(order, symbol) ?? 0
+        const notional = price * order.quantity
+        if (limits.maxOrderNotional !== undefined && notional > limits.maxOrderNotional) {
+            return `Notional ${notional} above limit of ${limits.maxOrderNotional}`
+        }
+        if (limits.priceCollar !== undefined && !MarketOrderTypes.includes(order.type) && Math.abs(price - mid!) / mid! > limits.priceCollar) {
+            return `Price ${price} outside ${limits.priceCollar * 100}% collar around ${mid}`
+        }
+
+        const direction = order.side === 'Buy' ? 1 : -1
+        const position = base + direction * order.quantity
+        if (limits.maxPosition !== undefined && order.side === 'Buy' && position > limits.maxPosition) {
+            return `Position ${position} above limit of ${limits.maxPosition}`
+        }
+        if (mid !== undefined && (limits.maxInventory !== undefined || limits.minInventory !== undefined)) {
+            const baseValue = position * mid
+            const whole = baseValue + quote - direction * notional
+            const inventory = whole > 0 ? baseValue / whole * 100 : 0
+            if (limits.maxInventory !== undefined && order.side === 'Buy' && inventory > limits.maxInventory) {
+                return `Inventory ${inventory.toFixed(2)}% above limit of ${limits.maxInventory}%`
+            }
+            if (limits.minInventory !== undefined && order.side === 'Sell' && inventory < limits.minInventory) {
+                return `Inventory ${inventory.toFixed(2)}% below limit of ${limits.minInventory}%`
+            }
+        }
+        return undefined
+    }
+
+    // limit orders carry their own price, the notional limit alone doesn't need a book for them
+    private needsMid(order: Order): boolean {
+        const limits = this.limits
+        return limits.priceCollar !== undefined || limits.maxInventory !== undefined || limits.minInventory !== undefined
+            || (limits.maxOrderNotional !== undefined && MarketOrderTypes.includes(order.type))
+    }
+
+    // market orders are valued at the mid
+    private getOrderPrice(order: Order, symbol: string): number | undefined {
+        return MarketOrderTypes.includes(order.type) ? this.getMid(symbol) : order.price
+    }
+
+    private getMid(symbol: string): number | undefined {
+        const topOfBook = this.topOfBook.get(symbol)
+        return topOfBook ? (topOfBook.bidPrice + topOfBook.askPrice) / 2 : undefined
+    }
+}
@@ -0,0 +1,100 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { CandleAggregator, getCandleDuration } from '../market-data/candle-aggregator'
+import { Candle, Trade } from '../types'
+import { Logger } from '../util/logging'
+
+Logger.setLevel('error')
+
+// 2024-01-01T00:00:00Z
+const Midnight = Date.UTC(2024, 0, 1)
+const Minute = 60 * 1000
+const Hour = 60 * Minute
+
+const trade = (timestamp: number, price: number, size: number = 1): Trade => ({
+    symbol: 'BTC-USDT', connectorType: 'Okx', event: 'Trade', timestamp, price, size,
+})
+
+const bars = (candles: Candle[], interval: string): Candle[] => candles.filter((candle: Candle) => candle.interval === interval)
+
+describe('CandleAggregator', () => {
+
+    it('parses OKX bar notation between 1s and 1D', () => {
+        assert.equal(getCandleDuration('15s'), 15000)
+        assert.equal(getCandleDuration('4H'), 4 * Hour)
+        assert.equal(getCandleDuration('1D'), 24 * Hour)
+        assert.throws(() => getCandleDuration('2D'), /Unsupported candle interval 2D/)
+        assert.throws(() => getCandleDuration('1W'), /Unsupported candle interval 1W/)
+    })
+
+    it('aligns bars to UTC interval boundaries', () => {
+        const aggregator = new CandleAggregator('Okx', ['1m', '4H', '1D'])
+        aggregator.addTrade(trade(Midnight + 5 * Hour + 30 * Minute + 15000, 100))
+        const closed = aggregator.addTrade(trade(Midnight + 24 * Hour, 101))
+
+        assert.equal(bars(closed, '1m')[0].timestamp, Midnight + 5 * Hour + 30 * Minute)
+        assert.equal(bars(closed, '4H')[0].timestamp, Midnight + 4 * Hour)
+        assert.deepEqual(bars(closed, '1D').map((candle: Candle) => candle.timestamp), [Midnight])
+    })
+
+    it('builds open, high, low, close and volume from the trades of a bar', () => {
+        const aggregator = new CandleAggregator('Okx', ['1m'])
+        aggregator.addTrade(trade(Midnight + 1000, 100, 1))
+        aggregator.addTrade(trade(Midnight + 2000, 105, 2))
+        aggregator.addTrade(trade(Midnight + 3000, 98, 0.5))
+        aggregator.addTrade(trade(Midnight + 4000, 101, 1))
+        const [candle] = aggregator.addTrade(trade(Midnight + Minute, 102))
+
+        assert.deepEqual([candle.open, candle.high, candle.low, candle.close, candle.volume], [100, 105, 98, 101, 4.5])
+        assert.deepEqual([candle.closed, candle.source, candle.timestamp], [true, 'Trades', Midnight])
+    })
+
+    it('drops trades for bars that already closed', () => {
+        const aggregator = new CandleAggregator('Okx', ['1m'])
+        aggregator.addTrade(trade(Midnight + 1000, 100))
+        aggregator.addTrade(trade(Midnight + Minute + 1000, 101))
+        assert.deepEqual(aggregator.addTrade(trade(Midnight + 2000, 50)), [])
+        const [candle] = aggregator.addTrade(trade(Midnight + 2 * Minute, 102))
+        assert.deepEqual([candle.low, candle.volume], [101, 1])
+    })
+
+    it('closes bars on the timer without trades, flat at the previous close', () => {
+        const aggregator = new CandleAggregator('Okx', ['1m'], 250)
+        assert.deepEqual(aggregator.closeElapsed(), [])
+        const before = Date.now()
+        aggregator.addTrade(trade(Midnight + Minute - 1000, 100))
+        assert.ok(aggregator.nextClose()! >= before + 1250)
+        assert.deepEqual(aggregator.closeElapsed(before), [])
+
+        // one second after the trade, plus the grace period
+        const [first] = aggregator.closeElapsed(aggregator.nextClose()!)
+        assert.deepEqual([first.timestamp, first.close, first.volume], [Midnight, 100, 1])
+
+        const [flat] = aggregator.closeElapsed(aggregator.nextClose()!)
+        assert.deepEqual([flat.timestamp, flat.open, flat.high, flat.low, flat.close, flat.volume], [Midnight + Minute, 100, 100, 100, 100, 0])
+
+        // the next trade opens the carried over bar at its own price
+        aggregator.addTrade(trade(Midnight + 3 * Minute - 1000, 110))
+        const [carried] = aggregator.addTrade(trade(Midnight + 3 * Minute, 111))
+        assert.deepEqual([carried.timestamp, carried.open, carried.low, carried.close], [Midnight + 2 * Minute, 110, 110, 110])
+    })
+
+    it('emits at most 100 flat bars after a long gap', () => {
+        const aggregator = new CandleAggregator('Okx', ['1s', '1H'])
+        aggregator.addTrade(trade(Midnight, 100))
+        const closed = aggregator.addTrade(trade(Midnight + 3 * Hour + 500, 101))
+
+        const seconds = bars(closed, '1s')
+        assert.equal(seconds.length, 101)
+        assert.deepEqual([seconds[0].timestamp, seconds[0].volume], [Midnight, 1])
+        // the flat bars are the ones right before the trade
+        assert.equal(seconds[1].timestamp, Midnight + 3 * Hour - 100 * 1000)
+        assert.equal(seconds[100].timestamp, Midnight + 3 * Hour - 1000)
+        assert.ok(seconds.slice(1).every((candle: Candle) => candle.volume === 0 && candle.close === 100))
+        // longer intervals within the cap are unaffected
+        assert.deepEqual(bars(closed, '1H').map((candle: Candle) => candle.timestamp), [Midnight, Midnight + Hour, Midnight + 2 * Hour])
+
+        const [next] = aggregator.addTrade(trade(Midnight + 3 * Hour + 1000, 102))
+        assert.deepEqual([next.timestamp, next.open, next.close, next.volume], [Midnight + 3 * Hour, 101, 101, 1])
+    })
+})
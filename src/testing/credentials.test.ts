@@ -0,0 +1,90 @@
+import * as fs from 'fs'
+import assert from 'node:assert/strict'
+import { afterEach, beforeEach, describe, it, mock } from 'node:test'
+import * as os from 'os'
+import * as path from 'path'
+import { Credential } from '../types'
+import { createCredentialProvider, loadKeystore, ReloadingCredentialProvider, toCredentialProvider, writeKeystore } from '../util/credentials'
+import { Logger } from '../util/logging'
+
+const credential: Credential = { key: 'test-api-key-1', secret: 'test-api-secret-1', passphrase: 'test-passphrase-1' }
+const rotated: Credential = { key: 'test-api-key-2', secret: 'test-api-secret-2', passphrase: 'test-passphrase-2' }
+
+describe('credentials', () => {
+
+    let directory: string
+
+    beforeEach(() => {
+        directory = fs.mkdtempSync(path.join(os.tmpdir(), 'skl-credentials-'))
+        Logger.setLevel('error')
+    })
+
+    afterEach(() => {
+        fs.rmSync(directory, { recursive: true, force: true })
+        delete process.env.SKL_TEST_KEYSTORE_PASSWORD
+        mock.restoreAll()
+    })
+
+    it('decrypts a keystore with the password it was written with', () => {
+        const file = path.join(directory, 'okx.keystore.json')
+        writeKeystore(file, credential, 'correct horse')
+        const contents = fs.readFileSync(file, 'utf8')
+        assert.equal(contents.includes(credential.secret), false)
+        assert.equal(fs.statSync(file).mode & 0o777, 0o600)
+
+        assert.deepEqual(loadKeystore(file, 'correct horse'), credential)
+        assert.throws(() => loadKeystore(file, 'wrong horse'), /Cannot decrypt keystore .*, wrong password or corrupted file/)
+    })
+
+    it('calls the rotate listeners when a reloaded file holds a new credential', () => {
+        const file = path.join(directory, 'okx.json')
+        fs.writeFileSync(file, JSON.stringify(credential))
+        const provider = createCredentialProvider({ type: 'File', path: file }) as ReloadingCredentialProvider
+        const received: Credential[] = []
+        provider.onRotate((credential: Credential) => received.push(credential))
+
+        assert.equal(provider.reload(), false)
+        fs.writeFileSync(file, JSON.stringify(rotated))
+        assert.equal(provider.reload(), true)
+        assert.deepEqual(received, [rotated])
+        assert.deepEqual(provider.getCredential(), rotated)
+
+        // a reload that fails keeps the last credential
+        fs.writeFileSync(file, JSON.stringify({ key: 'test-api-key-3' }))
+        assert.equal(provider.reload(), false)
+        assert.deepEqual(provider.getCredential(), rotated)
+        assert.deepEqual(received, [rotated])
+    })
+
+    it('reloads a rewritten keystore', () => {
+        const file = path.join(directory, 'okx.keystore.json')
+        writeKeystore(file, credential, 'correct horse')
+        process.env.SKL_TEST_KEYSTORE_PASSWORD = 'correct horse'
+        const provider = createCredentialProvider({ type: 'Keystore', path: file, passwordVariable: 'SKL_TEST_KEYSTORE_PASSWORD' }) as ReloadingCredentialProvider
+        const received: Credential[] = []
+        provider.onRotate((credential: Credential) => received.push(credential))
+
+        writeKeystore(file, rotated, 'correct horse')
+        // the keystore is only decrypted again when its modification time changed
+        const later = new Date(Date.now() + 1000)
+        fs.utimesSync(file, later, later)
+        assert.equal(provider.reload(), true)
+        assert.deepEqual(received, [rotated])
+    })
+
+    it('masks loaded secrets and sensitive fields in logger output', () => {
+        Logger.setLevel('log')
+        const log = mock.method(console, 'log', () => {})
+        toCredentialProvider(credential, 'test')
+
+        Logger.getInstance('test').log(`signing with ${credential.secret}: {"apiKey":"${credential.key}","availBal":"12.5","ccy":"BTC"}`, {
+            passphrase: 'short',
+            details: [{ ccy: 'USDT', eq: '1000' }],
+        }, new Error(`rejected ${credential.passphrase}`))
+
+        const [message, fields, error] = log.mock.calls[0].arguments
+        assert.match(message, /\[test\] signing with \*\*\*: \{"apiKey":"\*\*\*","availBal":"\*\*\*","ccy":"BTC"\}$/)
+        assert.deepEqual(fields, { passphrase: '***', details: [{ ccy: 'USDT', eq: '***' }] })
+        assert.equal(error.message, 'rejected ***')
+    })
+})
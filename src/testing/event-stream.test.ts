@@ -0,0 +1,137 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { EventConsumer, EventSource, EventStream } from '../events/event-stream'
+import { Serializable, TopOfBook, Trade } from '../types'
+import { Logger } from '../util/logging'
+
+Logger.setLevel('error')
+
+const trade = (price: number, symbol: string = 'BTC-USDT'): Trade => ({ symbol, connectorType: 'Okx', event: 'Trade', timestamp: 0, price, size: 1 })
+
+const topOfBook = (bidPrice: number, symbol: string = 'BTC-USDT'): TopOfBook => ({
+    symbol, connectorType: 'Okx', event: 'TopOfBook', timestamp: 0, bidPrice, bidSize: 1, askPrice: bidPrice + 1, askSize: 1,
+})
+
+// the queued events, read without waiting
+const drain = async (consumer: EventConsumer<any>, count: number = consumer.size): Promise<Serializable[]> => {
+    const events: Serializable[] = []
+    for (let i = 0; i < count; i++) {
+        events.push((await consumer.next()).value)
+    }
+    return events
+}
+
+class TestSource implements EventSource {
+    public onMessage: (messages: Serializable[]) => void = () => {}
+    public calls: string[] = []
+
+    public async connect(onMessage: (messages: Serializable[]) => void): Promise<void> {
+        this.onMessage = onMessage
+    }
+
+    public pause() {
+        this.calls.push('pause')
+    }
+
+    public resume() {
+        this.calls.push('resume')
+    }
+}
+
+describe('EventStream', () => {
+
+    it('delivers only the event types and symbols a consumer asked for', async () => {
+        const stream = new EventStream()
+        const trades = stream.subscribe({ events: ['Trade'], symbols: ['ETH-USDT'] })
+        const everything = stream.subscribe()
+        stream.publish([trade(1), trade(2, 'ETH-USDT'), topOfBook(3, 'ETH-USDT')])
+
+        assert.deepEqual(await drain(trades), [trade(2, 'ETH-USDT')])
+        assert.deepEqual(await drain(everything), [trade(1), trade(2, 'ETH-USDT'), topOfBook(3, 'ETH-USDT')])
+    })
+
+    it('hands events straight to a waiting reader', async () => {
+        const stream = new EventStream()
+        const consumer = stream.subscribe({ bufferSize: 1 })
+        const next = consumer.next()
+        stream.publish([trade(1)])
+        assert.deepEqual(await next, { value: trade(1), done: false })
+        assert.equal(consumer.size, 0)
+    })
+
+    it('drops the oldest events of a full DropOldest queue', async () => {
+        const stream = new EventStream()
+        const consumer = stream.subscribe({ bufferSize: 3 })
+        stream.publish([1, 2, 3, 4, 5].map((price: number) => trade(price)))
+
+        assert.equal(consumer.dropped, 2)
+        assert.deepEqual(await drain(consumer), [trade(3), trade(4), trade(5)])
+    })
+
+    it('keeps only the latest queued TopOfBook per symbol with ConflateTopOfBook', async () => {
+        const stream = new EventStream()
+        const consumer = stream.subscribe({ bufferSize: 3, overflow: 'ConflateTopOfBook' })
+        stream.publish([topOfBook(100), trade(1), topOfBook(101), topOfBook(200, 'ETH-USDT'), topOfBook(102)])
+        assert.equal(consumer.dropped, 0)
+        // the latest book takes the queue position of the first
+        assert.deepEqual(await drain(consumer), [topOfBook(102), trade(1), topOfBook(200, 'ETH-USDT')])
+
+        // a book read from the queue isn't replaced any more
+        stream.publish([topOfBook(103), topOfBook(104)])
+        assert.deepEqual(await drain(consumer), [topOfBook(104)])
+
+        // other events still drop the oldest
+        stream.publish([topOfBook(105), trade(2), trade(3), trade(4)])
+        assert.equal(consumer.dropped, 1)
+        assert.deepEqual(await drain(consumer), [trade(2), trade(3), trade(4)])
+    })
+
+    it('pauses the sources while a Block queue is full and resumes them at half its size', async () => {
+        const stream = new EventStream()
+        const source = new TestSource()
+        await stream.attach(source)
+        const blocking = stream.subscribe({ bufferSize: 4, overflow: 'Block' })
+        const dropping = stream.subscribe({ bufferSize: 2 })
+
+        source.onMessage([1, 2, 3, 4].map((price: number) => trade(price)))
+        assert.deepEqual(source.calls, ['pause'])
+        // frames already received still arrive while paused, nothing is dropped
+        source.onMessage([trade(5)])
+        assert.equal(blocking.size, 5)
+        assert.equal(blocking.dropped, 0)
+        // other consumers keep their own policy
+        assert.equal(dropping.dropped, 3)
+
+        assert.deepEqual(await drain(blocking, 2), [trade(1), trade(2)])
+        assert.deepEqual(source.calls, ['pause'])
+        await drain(blocking, 1)
+        assert.deepEqual(source.calls, ['pause', 'resume'])
+    })
+
+    it('resumes the sources when a full Block consumer is closed', async () => {
+        const stream = new EventStream()
+        const source = new TestSource()
+        await stream.attach(source)
+        const blocking = stream.subscribe({ bufferSize: 1, overflow: 'Block' })
+        source.onMessage([trade(1)])
+        assert.deepEqual(source.calls, ['pause'])
+
+        blocking.close()
+        assert.deepEqual(source.calls, ['pause', 'resume'])
+    })
+
+    it('ends iteration once a closed consumer is read empty', async () => {
+        const stream = new EventStream()
+        const consumer = stream.subscribe()
+        stream.publish([trade(1), trade(2)])
+        stream.close()
+        // closed consumers no longer receive events
+        stream.publish([trade(3)])
+
+        const events: Serializable[] = []
+        for await (const event of consumer) {
+            events.push(event)
+        }
+        assert.deepEqual(events, [trade(1), trade(2)])
+    })
+})
@@ -0,0 +1,90 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { FillLedger } from '../orders/fill-ledger'
+import { OrderFill, Side } from '../types'
+
+let tradeCount = 0
+
+const fill = (side: Side, size: number, price: number, fields: Partial<OrderFill> = {}): OrderFill => ({
+    symbol: 'BTC-USDT',
+    connectorType: 'Okx',
+    event: 'OrderFill',
+    timestamp: 0,
+    orderId: '1',
+    sklOrderId: 'order1',
+    side,
+    price,
+    size,
+    tradeId: `${++tradeCount}`,
+    ...fields,
+})
+
+describe('FillLedger', () => {
+
+    it('averages the cost of fills that add to the position', () => {
+        const ledger = new FillLedger('USDT')
+        ledger.record(fill('Buy', 1, 100))
+        ledger.record(fill('Buy', 1, 110))
+        const pnl = ledger.getPnl('BTC-USDT')!
+        assert.deepEqual([pnl.position, pnl.averageCost, pnl.realizedPnl], [2, 105, 0])
+    })
+
+    it('realizes PnL on fills that reduce the position and keeps the average cost', () => {
+        const ledger = new FillLedger('USDT')
+        ledger.record(fill('Buy', 2, 100))
+        ledger.record(fill('Sell', 0.5, 120))
+        const pnl = ledger.getPnl('BTC-USDT')!
+        assert.deepEqual([pnl.position, pnl.averageCost, pnl.realizedPnl], [1.5, 100, 10])
+    })
+
+    it('opens the other side at the fill price when a fill goes through zero', () => {
+        const ledger = new FillLedger('USDT')
+        ledger.record(fill('Buy', 1, 100))
+        ledger.record(fill('Sell', 1.5, 90))
+        let pnl = ledger.getPnl('BTC-USDT')!
+        assert.deepEqual([pnl.position, pnl.averageCost, pnl.realizedPnl], [-0.5, 90, -10])
+
+        // a short is closed at a profit below its cost
+        ledger.record(fill('Buy', 0.5, 80))
+        pnl = ledger.getPnl('BTC-USDT')!
+        assert.deepEqual([pnl.position, pnl.averageCost, pnl.realizedPnl], [0, 0, -5])
+    })
+
+    it('values fees paid in the base asset at the fill price', () => {
+        const ledger = new FillLedger('USDT')
+        ledger.record(fill('Buy', 2, 1000, { fee: -0.001, feeCurrency: 'BTC' }))
+        ledger.record(fill('Sell', 1, 1000, { fee: -0.5, feeCurrency: 'USDT' }))
+        const pnl = ledger.getPnl('BTC-USDT')!
+        assert.deepEqual([pnl.fees, pnl.realizedPnl], [1.5, -1.5])
+        // base asset fees are not taken off the position
+        assert.equal(pnl.position, 1)
+    })
+
+    it('records an execution reported by the fills and the orders channel once', () => {
+        const ledger = new FillLedger('USDT')
+        // the fills channel reports first, without the fee
+        assert.equal(ledger.record(fill('Buy', 1, 100, { tradeId: 'trade1' })), true)
+        assert.equal(ledger.record(fill('Buy', 1, 100, { tradeId: 'trade1', fee: -0.1, feeCurrency: 'USDT' })), false)
+        assert.equal(ledger.record(fill('Buy', 1, 100, { tradeId: 'trade1', fee: -0.1, feeCurrency: 'USDT' })), false)
+
+        const pnl = ledger.getPnl('BTC-USDT')!
+        assert.deepEqual([pnl.position, pnl.fees, pnl.realizedPnl], [1, 0.1, -0.1])
+        assert.equal(ledger.getFills('BTC-USDT').length, 1)
+        assert.equal(ledger.getFills('BTC-USDT')[0].fee, -0.1)
+    })
+
+    it('marks unrealized PnL at the TopOfBook mid', () => {
+        const ledger = new FillLedger('USDT')
+        ledger.record(fill('Buy', 2, 100))
+        assert.equal(ledger.getPnl('BTC-USDT')!.unrealizedPnl, 0)
+
+        ledger.update({ symbol: 'BTC-USDT', connectorType: 'Okx', event: 'TopOfBook', timestamp: 0, bidPrice: 109, bidSize: 1, askPrice: 111, askSize: 1 })
+        const pnl = ledger.getPnl('BTC-USDT')!
+        assert.deepEqual([pnl.markPrice, pnl.unrealizedPnl], [110, 20])
+
+        // books of other symbols don't move the mark
+        ledger.update({ symbol: 'ETH-USDT', connectorType: 'Okx', event: 'TopOfBook', timestamp: 0, bidPrice: 1, bidSize: 1, askPrice: 3, askSize: 1 })
+        assert.equal(ledger.getPnl('BTC-USDT')!.markPrice, 110)
+        assert.equal(ledger.getPnl('ETH-USDT'), undefined)
+    })
+})
@@ -0,0 +1,94 @@
+import * as fs from 'fs'
+import assert from 'node:assert/strict'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import * as os from 'os'
+import * as path from 'path'
+import { OKXSpotPublicConnector } from '../connectors/public/okx-spot-public-connector'
+import { OkxSpotReplayConnector } from '../connectors/public/okx-spot-replay-connector'
+import { getRecordingFiles, MarketDataRecorder, readRecordingFile } from '../market-data/market-data-recorder'
+import { ConnectorConfiguration, Serializable, Trade } from '../types'
+import { Logger } from '../util/logging'
+import { OkxMockExchange } from './okx-mock-exchange'
+import { waitFor } from './wait-for'
+
+Logger.setLevel('error')
+
+const frames = (directory: string): string[][] => getRecordingFiles(directory)
+    .map((file: string) => readRecordingFile(file).map((recorded) => recorded.frame))
+
+describe('MarketDataRecorder', () => {
+
+    let directory: string
+
+    beforeEach(() => {
+        directory = fs.mkdtempSync(path.join(os.tmpdir(), 'skl-recording-'))
+    })
+
+    afterEach(() => {
+        fs.rmSync(directory, { recursive: true, force: true })
+    })
+
+    it('starts a new file once the current one reaches its size', async () => {
+        // each line is 53 bytes, the file is rotated before the first write past the size
+        const recorder = new MarketDataRecorder({ directory, maxFileSize: 150 }, 'test')
+        const start = Date.now()
+        for (let i = 0; i < 5; i++) {
+            recorder.record(`{"frame":${i}}`, start + i)
+        }
+        await recorder.close()
+        assert.deepEqual(frames(directory), [['{"frame":0}', '{"frame":1}', '{"frame":2}'], ['{"frame":3}', '{"frame":4}']])
+    })
+
+    it('starts a new file once the current one is older than the rotate interval', async () => {
+        const recorder = new MarketDataRecorder({ directory, rotateInterval: 1000 }, 'test')
+        const start = Date.now()
+        recorder.record('a', start)
+        recorder.record('b', start + 999)
+        recorder.record('c', start + 1000)
+        recorder.record('d', start + 2500)
+        await recorder.close()
+        assert.deepEqual(frames(directory), [['a', 'b'], ['c'], ['d']])
+    })
+
+    it('drops frames recorded after it was closed', async () => {
+        const recorder = new MarketDataRecorder({ directory }, 'test')
+        recorder.record('a')
+        await recorder.close()
+        recorder.record('b')
+        await recorder.close()
+        assert.deepEqual(frames(directory), [['a']])
+    })
+
+    it('records the public connector\'s frames for the replay connector to play back', async () => {
+        const mock = new OkxMockExchange()
+        await mock.start()
+        mock.publishBook('BTC-USDT', 'snapshot', [['100', '1', '0', '1']], [['101', '2', '0', '1']])
+        const config: ConnectorConfiguration = {
+            connectorType: 'Okx',
+            quoteAsset: 'USDT',
+            endpoints: mock.endpoints,
+            channels: ['books', 'trades'],
+            bookDepth: 5,
+        }
+        const live: Serializable[] = []
+        const connector = new OKXSpotPublicConnector({ name: 'BTC' }, { ...config, recording: { directory } })
+        await connector.connect((messages: Serializable[]) => live.push(...messages))
+        await waitFor('the first TopOfBook', () => live.some((event: Serializable) => event.event === 'TopOfBook'))
+        mock.publishTrade('BTC-USDT', '100.5', '0.25', 'buy')
+        mock.publishBook('BTC-USDT', 'update', [['100.2', '3', '0', '1']], [])
+        await waitFor('the Trade', () => live.some((event: Serializable) => event.event === 'Trade'))
+        await waitFor('the updated TopOfBook', () => live.some((event: Serializable) => event.event === 'TopOfBook' && event.bidPrice === 100.2))
+        await connector.stop()
+        await mock.stop()
+
+        const replayed: Serializable[] = []
+        const replay = new OkxSpotReplayConnector({ name: 'BTC' }, config, { path: directory, speed: 0 })
+        await replay.connect((messages: Serializable[]) => replayed.push(...messages))
+        await replay.stop()
+
+        const marketData = (events: Serializable[]) => events.filter((event: Serializable) => ['Trade', 'TopOfBook', 'OrderBook'].includes(event.event))
+        assert.deepEqual(marketData(replayed), marketData(live))
+        const trade = replayed.find((event: Serializable) => event.event === 'Trade') as Trade
+        assert.deepEqual([trade.price, trade.size, trade.side], [100.5, 0.25, 'Buy'])
+    })
+})
@@ -0,0 +1,134 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { AddressInfo, createServer } from 'net'
+import { ConnectorMetrics } from '../metrics/connector-metrics'
+import { MetricsRegistry } from '../metrics/metrics-registry'
+import { Logger } from '../util/logging'
+
+Logger.setLevel('error')
+
+const getFreePort = (): Promise<number> => new Promise((resolve, reject) => {
+    const server = createServer()
+    server.on('error', reject)
+    server.listen(0, '127.0.0.1', () => {
+        const port = (server.address() as AddressInfo).port
+        server.close(() => resolve(port))
+    })
+})
+
+const feedStale = MetricsRegistry.getInstance().gauge('skl_feed_stale', '')
+
+describe('MetricsRegistry', () => {
+
+    it('renders counters, gauges and histograms in the Prometheus text format', () => {
+        const registry = new MetricsRegistry()
+        const counter = registry.counter('test_messages_total', 'Messages received')
+        counter.inc({ channel: 'books' })
+        counter.inc({ channel: 'books' }, 2)
+        counter.inc({ channel: 'say "hi"\n\\' })
+        registry.gauge('test_age_seconds', 'Age').set({}, 1.5)
+        const histogram = registry.histogram('test_latency_seconds', 'Latency', [0.1, 1])
+        histogram.observe({ op: 'order' }, 0.05)
+        histogram.observe({ op: 'order' }, 0.5)
+        histogram.observe({ op: 'order' }, 3)
+        // metrics without any series are left out
+        registry.gauge('test_unused', 'Unused')
+
+        assert.equal(registry.render(), [
+            '# HELP test_messages_total Messages received',
+            '# TYPE test_messages_total counter',
+            'test_messages_total{channel="books"} 3',
+            'test_messages_total{channel="say \\"hi\\"\\n\\\\"} 1',
+            '# HELP test_age_seconds Age',
+            '# TYPE test_age_seconds gauge',
+            'test_age_seconds 1.5',
+            '# HELP test_latency_seconds Latency',
+            '# TYPE test_latency_seconds histogram',
+            'test_latency_seconds_bucket{op="order",le="0.1"} 1',
+            'test_latency_seconds_bucket{op="order",le="1"} 2',
+            'test_latency_seconds_bucket{op="order",le="+Inf"} 3',
+            'test_latency_seconds_sum{op="order"} 3.55',
+            'test_latency_seconds_count{op="order"} 3',
+            '',
+        ].join('\n'))
+    })
+
+    it('removes every series carrying the given labels', () => {
+        const registry = new MetricsRegistry()
+        const counter = registry.counter('test_total', 'Total')
+        counter.inc({ connector: 'a', channel: 'books' })
+        counter.inc({ connector: 'b', channel: 'books' })
+        registry.remove({ connector: 'a' })
+        assert.equal(counter.get({ connector: 'a', channel: 'books' }), 0)
+        assert.equal(counter.get({ connector: 'b', channel: 'books' }), 1)
+    })
+
+    it('rejects a name registered as another metric type', () => {
+        const registry = new MetricsRegistry()
+        registry.counter('test_total', 'Total')
+        assert.equal(registry.counter('test_total', 'Total'), registry.counter('test_total', 'Total'))
+        assert.throws(() => registry.gauge('test_total', 'Total'), /Metric test_total is already registered as a counter/)
+    })
+})
+
+describe('ConnectorMetrics', () => {
+
+    it('reports a watched channel stale after its own threshold and recovered on the next message', () => {
+        const metrics = new ConnectorMetrics('test-thresholds', 'BTC-USDT', { staleAfter: 1000, staleThresholds: { trades: 5000 } })
+        const labels = (channel: string) => ({ connector: 'test-thresholds', symbol: 'BTC-USDT', channel })
+        metrics.watch(['books', 'trades'], 0)
+
+        metrics.checkFeeds(1000)
+        assert.deepEqual(metrics.getStaleFeeds(1000), [])
+        metrics.checkFeeds(1001)
+        assert.deepEqual(metrics.getStaleFeeds(1001), [{ connector: 'test-thresholds', symbol: 'BTC-USDT', channel: 'books', age: 1001 }])
+        assert.equal(feedStale.get(labels('trades')), 0)
+
+        metrics.checkFeeds(5001)
+        assert.deepEqual(metrics.getStaleFeeds(5001).map((feed) => feed.channel), ['books', 'trades'])
+        assert.equal(feedStale.get(labels('trades')), 1)
+
+        metrics.recordMessage('books', undefined, 5500)
+        metrics.checkFeeds(6000)
+        assert.deepEqual(metrics.getStaleFeeds(6000).map((feed) => feed.channel), ['trades'])
+        assert.equal(feedStale.get(labels('books')), 0)
+
+        // channels that aren't watched are never stale
+        metrics.unwatch(['trades'])
+        metrics.checkFeeds(60000)
+        assert.deepEqual(metrics.getStaleFeeds(60000).map((feed) => feed.channel), ['books'])
+        assert.equal(feedStale.get(labels('trades')), undefined)
+        metrics.stop()
+    })
+
+    it('serves /metrics and answers /health with 503 while a feed is stale', async () => {
+        const port = await getFreePort()
+        const metrics = new ConnectorMetrics('test-server', 'BTC-USDT', { port, staleAfter: 1000 })
+        metrics.start()
+        try {
+            metrics.watch(['books'])
+            metrics.recordMessage('books', Date.now() - 20)
+
+            const scrape = await fetch(`http://127.0.0.1:${port}/metrics`)
+            assert.equal(scrape.status, 200)
+            assert.match(scrape.headers.get('content-type')!, /^text\/plain; version=0\.0\.4/)
+            assert.match(await scrape.text(), /^skl_messages_total\{connector="test-server",symbol="BTC-USDT",channel="books"\} 1$/m)
+
+            const healthy = await fetch(`http://127.0.0.1:${port}/health`)
+            assert.equal(healthy.status, 200)
+            assert.deepEqual(await healthy.json(), { status: 'ok', staleFeeds: [] })
+
+            metrics.checkFeeds(Date.now() + 2000)
+            const stale = await fetch(`http://127.0.0.1:${port}/health`)
+            assert.equal(stale.status, 503)
+            const body = await stale.json()
+            assert.equal(body.status, 'stale')
+            assert.deepEqual(body.staleFeeds.map((feed: { channel: string }) => feed.channel), ['books'])
+
+            assert.equal((await fetch(`http://127.0.0.1:${port}/other`)).status, 404)
+            assert.equal((await fetch(`http://127.0.0.1:${port}/metrics`, { method: 'POST' })).status, 405)
+        } finally {
+            metrics.stop()
+        }
+    })
+})
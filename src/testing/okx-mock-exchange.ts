@@ -0,0 +1,498 @@
+import * as crypto from 'crypto'
+import { EventEmitter } from 'events'
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http'
+import { AddressInfo, Socket } from 'net'
+import { RawData, WebSocket, WebSocketServer } from 'ws'
+import { ConnectorEndpoints, Credential } from '../types'
+import { OkxBookLevel, OkxOrderBook } from '../connectors/public/okx-spot-order-book'
+import { getSubscriptionKey, OkxSubscriptionArg } from '../connectors/public/okx-spot-subscriptions'
+
+export interface OkxMockExchangeOptions {
+    host?: string;
+    // 0 picks a free port
+    port?: number;
+    // when set, login and REST signatures are verified against it
+    credential?: Credential;
+}
+
+export interface OkxMockOrder {
+    instId: string;
+    ordId: string;
+    clOrdId: string;
+    state: string;
+    side: string;
+    ordType: string;
+    px: string;
+    sz: string;
+    avgPx: string;
+    accFillSz: string;
+    fillPx: string;
+    fillSz: string;
+    tradeId: string;
+    fillFee: string;
+    fillFeeCcy: string;
+    // accumulated over the order's fills
+    fee: string;
+    feeCcy: string;
+    cTime: string;
+    uTime: string;
+}
+
+export interface OkxMockBalance {
+    ccy: string;
+    cashBal: string;
+    frozenBal: string;
+    availBal: string;
+    eq: string;
+}
+
+export interface OkxMockFrame {
+    // wait before sending, in ms
+    delay?: number;
+    arg: OkxSubscriptionArg;
+    action?: 'snapshot' | 'update';
+    data: object[];
+}
+
+export interface OkxMockSequence {
+    seqId: number;
+    prevSeqId: number;
+}
+
+export type OkxMockRestHandler = (params: URLSearchParams, body: any) => { code: string, msg: string, data: object[] }
+
+interface OkxMockClient {
+    socket: WebSocket;
+    isPrivate: boolean;
+    loggedIn: boolean;
+    subscriptions: Set<string>;
+    // ignore pings to simulate a stalled connection
+    silent: boolean;
+}
+
+export interface OkxMockRequestLog {
+    ws: any[];
+    // simulated is set when the request carried the demo trading header
+    rest: { method: string, path: string, body: any, simulated: boolean }[];
+}
+
+// public channels OKX only serves to logged in connections
+const OkxMockLoginChannels = ['books50-l2-tbt', 'books-l2-tbt']
+
+// In process stand-in for the OKX v5 websocket and REST APIs, for offline connector testing.
+// Serves /ws/v5/public, /ws/v5/business, /ws/v5/private and /api/v5/* on one local port.
+export class OkxMockExchange extends EventEmitter {
+
+    public orders: Map<string, OkxMockOrder> = new Map()
+    public balances: OkxMockBalance[] = []
+    public instruments: object[] = []
+    public received: OkxMockRequestLog = { ws: [], rest: [] }
+    private server: Server
+    private websocketServer: WebSocketServer
+    private clients: Set<OkxMockClient> = new Set()
+    private books: Map<string, OkxOrderBook> = new Map()
+    // last seqId published per instrument
+    private bookSeqIds: Map<string, number> = new Map()
+    private restHandlers: Map<string, OkxMockRestHandler> = new Map()
+    private orderCount = 0
+    private tradeCount = 0
+
+    constructor(private options: OkxMockExchangeOptions = {}) {
+        super()
+        const self = this
+        this.server = createServer((request: IncomingMessage, response: ServerResponse) => self.handleRest(request, response))
+        this.websocketServer = new WebSocketServer({ noServer: true })
+        self.server.on('upgrade', (request: IncomingMessage, socket: Socket, head: Buffer) => {
+            const path = request.url ?? ''
+            if (!['/ws/v5/public', '/ws/v5/private', '/ws/v5/business'].includes(path)) {
+                socket.destroy()
+                return
+            }
+            self.websocketServer.handleUpgrade(request, socket, head, (websocket: WebSocket) => {
+                self.handleConnection(websocket, path === '/ws/v5/private')
+            })
+        })
+        self.registerDefaultRestHandlers()
+    }
+
+    public start(): Promise<void> {
+        const self = this
+        return new Promise((resolve) => {
+            self.server.listen(self.options.port ?? 0, self.options.host ?? '127.0.0.1', () => resolve())
+        })
+    }
+
+    public stop(): Promise<void> {
+        const self = this
+        self.clients.forEach((client: OkxMockClient) => client.socket.terminate())
+        self.clients.clear()
+        self.websocketServer.close()
+        return new Promise((resolve) => self.server.close(() => resolve()))
+    }
+
+    public get restUrl(): string {
+        const address = this.server.address() as AddressInfo
+        return `http://${address.address}:${address.port}`
+    }
+
+    public get publicUrl(): string {
+        return `${this.restUrl.replace('http', 'ws')}/ws/v5/public`
+    }
+
+    public get businessUrl(): string {
+        return `${this.restUrl.replace('http', 'ws')}/ws/v5/business`
+    }
+
+    public get privateUrl(): string {
+        return `${this.restUrl.replace('http', 'ws')}/ws/v5/private`
+    }
+
+    // endpoint overrides pointing a connector at this exchange
+    public get endpoints(): ConnectorEndpoints {
+        return {
+            publicWebsocket: this.publicUrl,
+            privateWebsocket: this.privateUrl,
+            businessWebsocket: this.businessUrl,
+            rest: this.restUrl,
+        }
+    }
+
+    // -- scripted streams --
+
+    public publish(arg: OkxSubscriptionArg, data: object[], action?: 'snapshot' | 'update') {
+        const self = this
+        const message = action === undefined ? { arg, data } : { arg, action, data }
+        self.clients.forEach((client: OkxMockClient) => {
+            if (self.isSubscribed(client, arg)) {
+                client.socket.send(JSON.stringify(message))
+            }
+        })
+    }
+
+    // the checksum is computed from the mock's own copy of the book unless one is given,
+    // sequence overrides the next seqId/prevSeqId e.g. to skip or repeat pushes
+    public publishBook(instId: string, action: 'snapshot' | 'update', bids: OkxBookLevel[], asks: OkxBookLevel[], checksum?: number, sequence?: OkxMockSequence) {
+        let book = this.books.get(instId)
+        if (book === undefined || action === 'snapshot') {
+            book = new OkxOrderBook(instId)
+            this.books.set(instId, book)
+        }
+        const ts = Date.now()
+        if (action === 'snapshot') {
+            book.applySnapshot(bids, asks, ts)
+        } else {
+            book.applyUpdate(bids, asks, ts)
+        }
+        const lastSeqId = this.bookSeqIds.get(instId) ?? 0
+        const { seqId, prevSeqId } = sequence ?? { seqId: lastSeqId + 1, prevSeqId: action === 'snapshot' ? -1 : lastSeqId }
+        this.bookSeqIds.set(instId, seqId)
+        this.publish({ channel: 'books', instId }, [{ asks, bids, ts: `${ts}`, checksum: checksum ?? book.checksum(), seqId, prevSeqId }], action)
+    }
+
+    public publishTrade(instId: string, px: string, sz: string, side: 'buy' | 'sell') {
+        this.publish({ channel: 'trades', instId }, [{ instId, tradeId: `${++this.tradeCount}`, px, sz, side, ts: `${Date.now()}` }])
+    }
+
+    public publishTicker(instId: string, ticker: object) {
+        this.publish({ channel: 'tickers', instId }, [{ instType: 'SPOT', instId, ts: `${Date.now()}`, ...ticker }])
+    }
+
+    public async play(frames: OkxMockFrame[]): Promise<void> {
+        for (const frame of frames) {
+            if (frame.delay) {
+                await new Promise((resolve) => setTimeout(resolve, frame.delay))
+            }
+            this.publish(frame.arg, frame.data, frame.action)
+        }
+    }
+
+    // fills part of an order and pushes the update on the orders channel
+    public fillOrder(ordId: string, px: string, sz: string) {
+        const order = this.orders.get(ordId)
+        if (order === undefined) {
+            throw new Error(`Unknown mock order ${ordId}`)
+        }
+        const filled = parseFloat(order.accFillSz) + parseFloat(sz)
+        const notional = parseFloat(order.avgPx || '0') * parseFloat(order.accFillSz) + parseFloat(px) * parseFloat(sz)
+        order.accFillSz = `${filled}`
+        order.avgPx = `${notional / filled}`
+        order.fillPx = px
+        order.fillSz = sz
+        order.tradeId = `${++this.tradeCount}`
+        // spot fees are charged in the currency received
+        const fee = -parseFloat(order.side === 'buy' ? sz : `${parseFloat(px) * parseFloat(sz)}`) * 0.001
+        order.fillFee = `${fee}`
+        order.fillFeeCcy = order.instId.split('-')[order.side === 'buy' ? 0 : 1]
+        order.fee = `${parseFloat(order.fee) + fee}`
+        order.feeCcy = order.fillFeeCcy
+        order.state = filled >= parseFloat(order.sz) ? 'filled' : 'partially_filled'
+        this.pushOrder(order)
+    }
+
+    public pushOrder(order: OkxMockOrder) {
+        order.uTime = `${Date.now()}`
+        this.publish({ channel: 'orders', instType: 'SPOT' }, [{ ...order }])
+    }
+
+    // pushes the current balances on the account channel
+    public pushBalances() {
+        const now = `${Date.now()}`
+        this.publish({ channel: 'account' }, [{ uTime: now, totalEq: '0', details: this.balances.map((balance) => ({ ...balance, uTime: now })) }])
+    }
+
+    // -- fault injection --
+
+    public disconnectAll(code: number = 1006) {
+        this.clients.forEach((client: OkxMockClient) => code === 1006 ? client.socket.terminate() : client.socket.close(code))
+    }
+
+    public sendError(code: string, msg: string) {
+        this.broadcast(JSON.stringify({ event: 'error', code, msg, connId: 'mock' }))
+    }
+
+    public sendMalformed(text: string = '{"arg":') {
+        this.broadcast(text)
+    }
+
+    public setSilent(silent: boolean) {
+        this.clients.forEach((client: OkxMockClient) => client.silent = silent)
+    }
+
+    // replaces the response of a REST endpoint, e.g. to return an error code
+    public setRestHandler(method: 'GET' | 'POST', path: string, handler: OkxMockRestHandler) {
+        this.restHandlers.set(`${method} ${path}`, handler)
+    }
+
+    private broadcast(text: string) {
+        this.clients.forEach((client: OkxMockClient) => client.socket.send(text))
+    }
+
+    private isSubscribed(client: OkxMockClient, arg: OkxSubscriptionArg): boolean {
+        return client.subscriptions.has(getSubscriptionKey(arg))
+            || client.subscriptions.has(getSubscriptionKey({ channel: arg.channel, instType: arg.instType }))
+            || client.subscriptions.has(getSubscriptionKey({ channel: arg.channel }))
+    }
+
+    private handleConnection(socket: WebSocket, isPrivate: boolean) {
+        const self = this
+        const client: OkxMockClient = { socket, isPrivate, loggedIn: false, subscriptions: new Set(), silent: false }
+        self.clients.add(client)
+        self.emit('connection', isPrivate)
+
+        socket.on('message', (data: RawData) => {
+            const text = data.toString()
+            if (text === 'ping') {
+                if (!client.silent) {
+                    socket.send('pong')
+                }
+                return
+            }
+            let message: any
+            try {
+                message = JSON.parse(text)
+            } catch (error) {
+                socket.send(JSON.stringify({ event: 'error', code: '60012', msg: `Invalid request: ${text}`, connId: 'mock' }))
+                return
+            }
+            self.received.ws.push(message)
+            self.handleOperation(client, message)
+        })
+
+        socket.on('close', () => self.clients.delete(client))
+    }
+
+    private handleOperation(client: OkxMockClient, message: any) {
+        const self = this
+        const reply = (payload: object) => client.socket.send(JSON.stringify(payload))
+
+        if (message.op === 'login') {
+            const arg = message.args?.[0] ?? {}
+            if (self.verifyLogin(arg)) {
+                client.loggedIn = true
+                reply({ event: 'login', code: '0', msg: '', connId: 'mock' })
+            } else {
+                reply({ event: 'error', code: '60009', msg: 'Login failed.', connId: 'mock' })
+            }
+        } else if (message.op === 'subscribe' || message.op === 'unsubscribe') {
+            const needsLogin = client.isPrivate || message.args.some((arg: OkxSubscriptionArg) => OkxMockLoginChannels.includes(arg.channel))
+            if (needsLogin && !client.loggedIn) {
+                reply({ id: message.id, event: 'error', code: '60011', msg: 'Please log in', connId: 'mock' })
+                return
+            }
+            message.args.forEach((arg: OkxSubscriptionArg) => {
+                const key = getSubscriptionKey(arg)
+                if (message.op === 'subscribe') {
+                    client.subscriptions.add(key)
+                } else {
+                    client.subscriptions.delete(key)
+                }
+                reply({ id: message.id, event: message.op, arg, connId: 'mock' })
+            })
+            // a fresh subscription to books gets the current snapshot
+            message.args
+                .filter((arg: OkxSubscriptionArg) => message.op === 'subscribe' && arg.channel === 'books' && self.books.has(arg.instId ?? ''))
+                .forEach((arg: OkxSubscriptionArg) => {
+                    const book = self.books.get(arg.instId!)!
+                    const depth = book.getDepth(400)
+                    const toLevel = (level: { rawPrice: string, rawSize: string, orders: number }) => [level.rawPrice, level.rawSize, '0', `${level.orders}`]
+                    const seqId = self.bookSeqIds.get(arg.instId!) ?? 0
+                    reply({ arg, action: 'snapshot', data: [{ bids: depth.bids.map(toLevel), asks: depth.asks.map(toLevel), ts: `${Date.now()}`, checksum: book.checksum(), seqId, prevSeqId: -1 }] })
+                })
+        } else if (['order', 'batch-orders', 'cancel-order', 'batch-cancel-orders', 'amend-order', 'batch-amend-orders'].includes(message.op)) {
+            if (!client.isPrivate || !client.loggedIn) {
+                reply({ id: message.id, op: message.op, code: '60011', msg: 'Please log in', data: [] })
+                return
+            }
+            const data = message.args.map((arg: any) => self.handleOrderOperation(message.op, arg))
+            const failed = data.filter((result: any) => result.sCode !== '0').length
+            const code = failed === 0 ? '0' : (failed === data.length ? '1' : '2')
+            const now = `${Date.now() * 1000}`
+            reply({ id: message.id, op: message.op, code, msg: '', data, inTime: now, outTime: now })
+        }
+    }
+
+    private handleOrderOperation(op: string, arg: any): object {
+        const self = this
+        if (op === 'order' || op === 'batch-orders') {
+            const now = `${Date.now()}`
+            const order: OkxMockOrder = {
+                instId: arg.instId,
+                ordId: `${++self.orderCount}`,
+                clOrdId: arg.clOrdId ?? '',
+                state: 'live',
+                side: arg.side,
+                ordType: arg.ordType,
+                px: arg.px ?? '',
+                sz: arg.sz,
+                avgPx: '',
+                accFillSz: '0',
+                fillPx: '',
+                fillSz: '0',
+                tradeId: '',
+                fillFee: '0',
+                fillFeeCcy: '',
+                fee: '0',
+                feeCcy: '',
+                cTime: now,
+                uTime: now,
+            }
+            self.orders.set(order.ordId, order)
+            setImmediate(() => self.pushOrder(order))
+            return { clOrdId: order.clOrdId, ordId: order.ordId, tag: '', sCode: '0', sMsg: '' }
+        }
+
+        const order = self.findOrder(arg)
+        if (order === undefined || order.state === 'filled' || order.state === 'canceled') {
+            return { clOrdId: arg.clOrdId ?? '', ordId: arg.ordId ?? '', tag: '', sCode: '51603', sMsg: 'Order does not exist' }
+        }
+        if (op === 'cancel-order' || op === 'batch-cancel-orders') {
+            order.state = 'canceled'
+        } else {
+            order.px = arg.newPx ?? order.px
+            order.sz = arg.newSz ?? order.sz
+        }
+        setImmediate(() => self.pushOrder(order))
+        return { clOrdId: order.clOrdId, ordId: order.ordId, tag: '', sCode: '0', sMsg: '' }
+    }
+
+    private findOrder(arg: { ordId?: string, clOrdId?: string }): OkxMockOrder | undefined {
+        if (arg.ordId) {
+            return this.orders.get(arg.ordId)
+        }
+        return Array.from(this.orders.values()).find((order: OkxMockOrder) => order.clOrdId === arg.clOrdId)
+    }
+
+    private verifyLogin(arg: any): boolean {
+        const credential = this.options.credential
+        if (credential === undefined) {
+            return true
+        }
+        const sign = crypto.createHmac('sha256', credential.secret)
+            .update(`${arg.timestamp}GET/users/self/verify`)
+            .digest('base64')
+        return arg.apiKey === credential.key && arg.passphrase === credential.passphrase && arg.sign === sign
+    }
+
+    private verifyRest(request: IncomingMessage, body: string): boolean {
+        const credential = this.options.credential
+        if (credential === undefined || (request.url ?? '').startsWith('/api/v5/public') || (request.url ?? '').startsWith('/api/v5/market')) {
+            return true
+        }
+        const timestamp = request.headers['ok-access-timestamp']
+        const sign = crypto.createHmac('sha256', credential.secret)
+            .update(`${timestamp}${request.method}${request.url}${body}`)
+            .digest('base64')
+        return request.headers['ok-access-key'] === credential.key && request.headers['ok-access-sign'] === sign
+    }
+
+    private handleRest(request: IncomingMessage, response: ServerResponse) {
+        const self = this
+        let body = ''
+        request.on('data', (chunk: Buffer) => body += chunk.toString())
+        request.on('end', () => {
+            const url = new URL(request.url ?? '/', 'http://localhost')
+            const send = (status: number, payload: object) => {
+                response.writeHead(status, { 'Content-Type': 'application/json' })
+                response.end(JSON.stringify(payload))
+            }
+            let parsedBody: any
+            try {
+                parsedBody = body ? JSON.parse(body) : undefined
+            } catch (error) {
+                send(400, { code: '50002', msg: 'JSON syntax error', data: [] })
+                return
+            }
+            self.received.rest.push({
+                method: request.method ?? 'GET',
+                path: url.pathname,
+                body: parsedBody,
+                simulated: request.headers['x-simulated-trading'] === '1',
+            })
+
+            if (!self.verifyRest(request, body)) {
+                send(401, { code: '50113', msg: 'Invalid Sign', data: [] })
+                return
+            }
+            const handler = self.restHandlers.get(`${request.method} ${url.pathname}`)
+            if (handler === undefined) {
+                send(404, { code: '50000', msg: `No mock for ${request.method} ${url.pathname}`, data: [] })
+                return
+            }
+            send(200, handler(url.searchParams, parsedBody))
+        })
+    }
+
+    private registerDefaultRestHandlers() {
+        const self = this
+        const ok = (data: object[]) => ({ code: '0', msg: '', data })
+        const openStates = ['live', 'partially_filled']
+        const matches = (params: URLSearchParams) => (order: OkxMockOrder) => !params.get('instId') || order.instId === params.get('instId')
+
+        self.setRestHandler('GET', '/api/v5/public/instruments', () => ok(self.instruments))
+        self.setRestHandler('GET', '/api/v5/account/balance', () => ok([{ uTime: `${Date.now()}`, totalEq: '0', details: self.balances }]))
+        self.setRestHandler('GET', '/api/v5/trade/orders-pending', (params) => {
+            return ok(Array.from(self.orders.values()).filter(matches(params)).filter((order) => openStates.includes(order.state)))
+        })
+        self.setRestHandler('GET', '/api/v5/trade/orders-history', (params) => {
+            return ok(Array.from(self.orders.values()).filter(matches(params)).filter((order) => !openStates.includes(order.state)))
+        })
+        self.setRestHandler('GET', '/api/v5/trade/order', (params) => {
+            const order = self.findOrder({ ordId: params.get('ordId') ?? undefined, clOrdId: params.get('clOrdId') ?? undefined })
+            return order ? ok([order]) : { code: '51603', msg: 'Order does not exist', data: [] }
+        })
+        self.setRestHandler('GET', '/api/v5/market/books', (params) => {
+            const book = self.books.get(params.get('instId') ?? '')
+            const depth = book?.getDepth(parseInt(params.get('sz') ?? '400')) ?? { bids: [], asks: [] }
+            const toLevel = (level: { rawPrice: string, rawSize: string, orders: number }) => [level.rawPrice, level.rawSize, '0', `${level.orders}`]
+            return ok([{ bids: depth.bids.map(toLevel), asks: depth.asks.map(toLevel), ts: `${Date.now()}` }])
+        })
+        self.setRestHandler('POST', '/api/v5/trade/cancel-batch-orders', (params, body) => {
+            const data = (body as any[]).map((arg: any) => self.handleOrderOperation('cancel-order', arg))
+            return { code: data.every((result: any) => result.sCode === '0') ? '0' : '2', msg: '', data }
+        })
+        self.setRestHandler('POST', '/api/v5/trade/amend-batch-orders', (params, body) => {
+            const data = (body as any[]).map((arg: any) => self.handleOrderOperation('amend-order', arg))
+            return { code: data.every((result: any) => result.sCode === '0') ? '0' : '2', msg: '', data }
+        })
+    }
+}
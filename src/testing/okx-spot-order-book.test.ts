@@ -0,0 +1,44 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { crc32, OkxBookLevel, OkxOrderBook } from '../connectors/public/okx-spot-order-book'
+
+// the example book of OKX's checksum documentation
+const documentedBids: OkxBookLevel[] = [['3366.1', '7', '0', '3'], ['3366', '6', '3', '4']]
+const documentedAsks: OkxBookLevel[] = [['3366.8', '9', '10', '3'], ['3368', '8', '3', '4']]
+
+describe('OkxOrderBook', () => {
+
+    it('computes crc32 as a signed 32 bit integer', () => {
+        // the standard check value 0xCBF43926
+        assert.equal(crc32('123456789'), -873187034)
+        assert.equal(crc32('3366.1:7:3366.8:9:3366:6:3368:8'), -1881014294)
+        assert.equal(crc32(''), 0)
+    })
+
+    it('matches the checksum of OKX\'s documented example', () => {
+        const book = new OkxOrderBook('BTC-USDT')
+        // levels arrive in any order, the checksum alternates bids and asks from the best price
+        book.applySnapshot([...documentedBids].reverse(), documentedAsks, 1)
+        assert.equal(book.checksum(), -1881014294)
+        assert.equal(book.verifyChecksum(-1881014294), true)
+
+        book.applyUpdate([], [['3368', '0', '0', '0']], 2)
+        assert.equal(book.checksum(), 1164732920)
+        assert.equal(book.verifyChecksum(-1881014294), false)
+    })
+
+    it('builds the checksum from the price and size strings as OKX sent them', () => {
+        const book = new OkxOrderBook('BTC-USDT')
+        book.applySnapshot([['3366.10', '7.0', '0', '1']], [['3366.8', '9', '0', '1']], 1)
+        assert.equal(book.checksum(), crc32('3366.10:7.0:3366.8:9'))
+        assert.equal(book.checksum(), -493006573)
+    })
+
+    it('only includes the top 25 levels of each side', () => {
+        const levels = (start: number, step: number): OkxBookLevel[] => Array.from({ length: 30 }, (_, i) => [String(start + i * step), '1', '0', '1'])
+        const book = new OkxOrderBook('BTC-USDT')
+        book.applySnapshot(levels(100, -1), levels(101, 1), 1)
+        const expected = Array.from({ length: 25 }, (_, i) => `${100 - i}:1:${101 + i}:1`).join(':')
+        assert.equal(book.checksum(), crc32(expected))
+    })
+})
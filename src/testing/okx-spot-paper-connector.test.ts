@@ -0,0 +1,130 @@
+import assert from 'node:assert/strict'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import { OkxSpotPaperConnector } from '../connectors/public/okx-spot-paper-connector'
+import { OkxOrderBook } from '../connectors/public/okx-spot-order-book'
+import { BalanceResponse, Order, OrderFill, OrderStatusUpdate, Serializable } from '../types'
+import { Logger } from '../util/logging'
+import { OkxMockExchange } from './okx-mock-exchange'
+import { waitFor } from './wait-for'
+
+Logger.setLevel('error')
+
+const assertClose = (actual: number, expected: number) => {
+    assert.ok(Math.abs(actual - expected) < 1e-9, `expected ${expected}, got ${actual}`)
+}
+
+describe('OkxSpotPaperConnector against OkxMockExchange', () => {
+
+    let mock: OkxMockExchange
+    let connector: OkxSpotPaperConnector
+    let events: Serializable[]
+
+    const fills = (): OrderFill[] => events.filter((event: Serializable) => event.event === 'OrderFill') as OrderFill[]
+    const orderUpdates = (): OrderStatusUpdate[] => events.filter((event: Serializable) => event.event === 'OrderStatusUpdate') as OrderStatusUpdate[]
+
+    const place = async (order: Order) => {
+        const [result] = await connector.placeOrders({
+            event: 'BatchOrdersRequest',
+            symbol: 'BTC-USDT',
+            connectorType: 'Okx',
+            timestamp: Date.now(),
+            orders: [order],
+        })
+        return result
+    }
+
+    const getBalances = (): Promise<BalanceResponse> => connector.getBalancePercentage({
+        event: 'BalanceRequest',
+        symbol: 'BTC-USDT',
+        connectorType: 'Okx',
+        timestamp: Date.now(),
+        lastPrice: 100,
+    })
+
+    beforeEach(async () => {
+        mock = new OkxMockExchange()
+        await mock.start()
+        mock.publishBook('BTC-USDT', 'snapshot', [['100', '1', '0', '1'], ['99', '2', '0', '1']], [['101', '1', '0', '1'], ['102', '2', '0', '1']])
+        events = []
+        connector = new OkxSpotPaperConnector({ name: 'BTC' }, {
+            connectorType: 'Okx',
+            quoteAsset: 'USDT',
+            endpoints: mock.endpoints,
+            cancelOnStop: false,
+            paperTrading: { balances: { BTC: 2, USDT: 1000 }, makerFee: 0.001, takerFee: 0.002, latency: 0 },
+        })
+        await connector.connect((messages: Serializable[]) => events.push(...messages))
+        await waitFor('the paper book', () => Array.from(connector.publicConnector.books.values()).some((book: OkxOrderBook) => book.isValid))
+    })
+
+    afterEach(async () => {
+        await connector.stop()
+        await mock.stop()
+    })
+
+    it('fills a marketable limit order against the book levels it crosses, paying the taker fee', async () => {
+        const result = await place({ sklOrderId: 'take1', side: 'Buy', type: 'Limit', price: 102, quantity: 1.5 })
+        assert.equal(result.sCode, '0')
+        assert.deepEqual(fills().map((fill: OrderFill) => [fill.price, fill.size]), [[101, 1], [102, 0.5]])
+        assert.equal(orderUpdates().pop()!.state, 'Filled')
+
+        // the fee is charged in the base asset received
+        const balances = await getBalances()
+        assertClose(balances.baseBalance, 2 + 1.5 * 0.998)
+        assertClose(balances.quoteBalance, 1000 - 101 - 51)
+    })
+
+    it('sells at market down the bids, paying the fee in the quote asset', async () => {
+        await place({ side: 'Sell', type: 'Market', price: 0, quantity: 1.5 })
+        assert.deepEqual(fills().map((fill: OrderFill) => [fill.price, fill.size]), [[100, 1], [99, 0.5]])
+
+        const balances = await getBalances()
+        assertClose(balances.baseBalance, 0.5)
+        assertClose(balances.quoteBalance, 1000 + (100 + 49.5) * 0.998)
+    })
+
+    it('fills a resting order from trades through its price and from the book moving through it', async () => {
+        await place({ sklOrderId: 'rest1', side: 'Buy', type: 'Limit', price: 99.5, quantity: 0.5 })
+        assert.equal(fills().length, 0)
+
+        // a trade at our price doesn't say whether our place in the queue was reached
+        mock.publishTrade('BTC-USDT', '99.5', '1', 'sell')
+        mock.publishTrade('BTC-USDT', '99', '0.3', 'sell')
+        const partial = await waitFor('the partial fill', () => fills()[0])
+        assert.deepEqual([partial.price, partial.size], [99.5, 0.3])
+        assert.equal(orderUpdates().pop()!.state, 'PartiallyFilled')
+
+        mock.publishBook('BTC-USDT', 'update', [['100', '0', '0', '0'], ['99', '0', '0', '0'], ['99.3', '1', '0', '1']], [['99.4', '1', '0', '1']])
+        const rest = await waitFor('the remaining fill', () => fills()[1])
+        assert.deepEqual([rest.price, rest.size], [99.5, 0.2])
+        assert.equal(orderUpdates().pop()!.state, 'Filled')
+
+        // both fills were as maker
+        const balances = await getBalances()
+        assertClose(balances.baseBalance, 2 + 0.5 * 0.999)
+        assertClose(balances.quoteBalance, 1000 - 0.5 * 99.5)
+    })
+
+    it('reserves funds for open orders and releases them on cancel', async () => {
+        await place({ sklOrderId: 'bid1', side: 'Buy', type: 'Limit', price: 90, quantity: 10 })
+        const rejected = await place({ sklOrderId: 'bid2', side: 'Buy', type: 'Limit', price: 90, quantity: 2 })
+        assert.deepEqual([rejected.sCode, rejected.sMsg], ['51000', 'insufficient balance'])
+        assert.equal(orderUpdates().pop()!.state, 'Rejected')
+
+        const tooLarge = await place({ sklOrderId: 'ask1', side: 'Sell', type: 'Limit', price: 110, quantity: 2.5 })
+        assert.deepEqual([tooLarge.sCode, tooLarge.sMsg], ['51000', 'insufficient balance'])
+
+        const [cancelled] = await connector.cancelOrders({
+            event: 'CancelOrdersRequest',
+            symbol: 'BTC-USDT',
+            connectorType: 'Okx',
+            timestamp: Date.now(),
+            sklOrderIds: ['bid1'],
+        })
+        assert.equal(cancelled.sCode, '0')
+        assert.equal((await place({ sklOrderId: 'bid3', side: 'Buy', type: 'Limit', price: 90, quantity: 11 })).sCode, '0')
+        // nothing was filled, the totals are unchanged
+        const balances = await getBalances()
+        assert.deepEqual([balances.baseBalance, balances.quoteBalance], [2, 1000])
+    })
+})
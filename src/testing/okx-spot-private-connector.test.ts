@@ -0,0 +1,190 @@
+import assert from 'node:assert/strict'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import { OkxOrderValidationError } from '../connectors/public/okx-spot-errors'
+import { OkxSpotPrivateConnector } from '../connectors/public/okx-spot-private-connector'
+import { BatchOrdersRequest, ConnectorConfiguration, Credential, OrderStatusUpdate, Serializable } from '../types'
+import { Logger } from '../util/logging'
+import { OkxMockExchange } from './okx-mock-exchange'
+import { waitFor } from './wait-for'
+
+Logger.setLevel('error')
+
+const credential: Credential = { key: 'mock-key', secret: 'mock-secret', passphrase: 'mock-passphrase' }
+
+describe('OkxSpotPrivateConnector against OkxMockExchange', () => {
+
+    let mock: OkxMockExchange
+    let connector: OkxSpotPrivateConnector
+    let events: Serializable[]
+
+    const orderUpdates = (): OrderStatusUpdate[] => events.filter((event: Serializable) => event.event === 'OrderStatusUpdate') as OrderStatusUpdate[]
+    const operations = (): string[] => mock.received.ws.map((message: any) => message.op)
+
+    const start = async (config: Partial<ConnectorConfiguration> = {}) => {
+        connector = new OkxSpotPrivateConnector({ name: 'BTC' }, {
+            connectorType: 'Okx',
+            quoteAsset: 'USDT',
+            endpoints: mock.endpoints,
+            cancelOnStop: false,
+            ...config,
+        }, credential)
+        await connector.connect((messages: Serializable[]) => events.push(...messages))
+        // reconciliation after login reports the mock's balances
+        await waitFor('the reconciled balances', () => events.some((event: Serializable) => event.event === 'BalanceUpdate'))
+    }
+
+    beforeEach(async () => {
+        mock = new OkxMockExchange({ credential })
+        mock.instruments = [{
+            instId: 'BTC-USDT', instType: 'SPOT', baseCcy: 'BTC', quoteCcy: 'USDT',
+            tickSz: '0.1', lotSz: '0.0001', minSz: '0.0001', state: 'live',
+        }]
+        mock.balances = [
+            { ccy: 'BTC', cashBal: '1', frozenBal: '0', availBal: '1', eq: '1' },
+            { ccy: 'USDT', cashBal: '100000', frozenBal: '0', availBal: '100000', eq: '100000' },
+        ]
+        await mock.start()
+        events = []
+    })
+
+    afterEach(async () => {
+        await connector.stop()
+        await mock.stop()
+    })
+
+    it('places, amends and cancels an order over the websocket', async () => {
+        await start()
+        const [placed] = await connector.placeOrders({
+            event: 'BatchOrdersRequest',
+            symbol: 'BTC-USDT',
+            connectorType: 'Okx',
+            timestamp: Date.now(),
+            orders: [{ sklOrderId: 'test1', side: 'Buy', type: 'Limit', price: 100, quantity: 0.5 }],
+        })
+        assert.equal(placed.sCode, '0')
+        assert.equal(placed.clOrdId, 'test1')
+        const order = mock.orders.get(placed.ordId)!
+        assert.deepEqual([order.side, order.ordType, order.px, order.sz, order.state], ['buy', 'limit', '100.0', '0.5000', 'live'])
+        await waitFor('the Placed update', () => orderUpdates().find((update: OrderStatusUpdate) => update.state === 'Placed'))
+
+        const [amended] = await connector.amendOrders({
+            event: 'AmendOrdersRequest',
+            symbol: 'BTC-USDT',
+            connectorType: 'Okx',
+            timestamp: Date.now(),
+            amendments: [{ sklOrderId: 'test1', price: 99.5, quantity: 0.25 }],
+        })
+        assert.equal(amended.sCode, '0')
+        assert.deepEqual([order.px, order.sz], ['99.5', '0.2500'])
+
+        const [cancelled] = await connector.cancelOrders({
+            event: 'CancelOrdersRequest',
+            symbol: 'BTC-USDT',
+            connectorType: 'Okx',
+            timestamp: Date.now(),
+            sklOrderIds: ['test1'],
+        })
+        assert.equal(cancelled.sCode, '0')
+        assert.equal(order.state, 'canceled')
+        const update = await waitFor('the Cancelled update', () => orderUpdates().find((update: OrderStatusUpdate) => update.state === 'Cancelled'))
+        assert.equal(update.sklOrderId, 'test1')
+        assert.equal(update.orderId, placed.ordId)
+
+        assert.deepEqual(operations().filter((op: string) => ['order', 'amend-order', 'cancel-order'].includes(op)), ['order', 'amend-order', 'cancel-order'])
+    })
+
+    it('rejects order types spot doesn\'t support without sending them', async () => {
+        await start()
+        await assert.rejects(connector.placeOrders({
+            event: 'BatchOrdersRequest',
+            symbol: 'BTC-USDT',
+            connectorType: 'Okx',
+            timestamp: Date.now(),
+            orders: [{ sklOrderId: 'test2', side: 'Buy', type: 'OptimalLimitImmediateOrCancel', price: 0, quantity: 0.5 }],
+        }), (error: OkxOrderValidationError) => {
+            assert.deepEqual(error.reasons, ['order test2: OptimalLimitImmediateOrCancel orders are not supported on spot'])
+            return true
+        })
+        assert.equal(operations().includes('order'), false)
+    })
+
+    it('reports an order the exchange doesn\'t know in the cancel result', async () => {
+        await start()
+        const [cancelled] = await connector.cancelOrders({
+            event: 'CancelOrdersRequest',
+            symbol: 'BTC-USDT',
+            connectorType: 'Okx',
+            timestamp: Date.now(),
+            orderIds: ['404'],
+        })
+        assert.equal(cancelled.sCode, '51603')
+    })
+
+    it('reports orders cancelled by market maker protection as Cancelled', async () => {
+        await start()
+        const [placed] = await connector.placeOrders({
+            event: 'BatchOrdersRequest',
+            symbol: 'BTC-USDT',
+            connectorType: 'Okx',
+            timestamp: Date.now(),
+            orders: [{ sklOrderId: 'test4', side: 'Sell', type: 'Limit', price: 100, quantity: 0.5 }],
+        })
+        await waitFor('the Placed update', () => orderUpdates().find((update: OrderStatusUpdate) => update.state === 'Placed'))
+
+        const order = mock.orders.get(placed.ordId)!
+        order.state = 'mmp_canceled'
+        mock.pushOrder(order)
+        const update = await waitFor('the Cancelled update', () => orderUpdates().find((update: OrderStatusUpdate) => update.state === 'Cancelled'))
+        assert.equal(update.sklOrderId, 'test4')
+        assert.deepEqual(connector.orders.getOpenOrders(), [])
+    })
+
+    it('reports orders the risk checks reject as Rejected updates without sending them', async () => {
+        await start({ risk: { maxOrderNotional: 40 } })
+        const results = await connector.placeOrders({
+            event: 'BatchOrdersRequest',
+            symbol: 'BTC-USDT',
+            connectorType: 'Okx',
+            timestamp: Date.now(),
+            orders: [{ sklOrderId: 'test3', side: 'Buy', type: 'Limit', price: 100, quantity: 0.5 }],
+        })
+        assert.deepEqual(results, [])
+        const [rejected] = orderUpdates()
+        assert.deepEqual([rejected.state, rejected.sklOrderId, rejected.price, rejected.size, rejected.reason], ['Rejected', 'test3', 100, 0.5, 'Notional 50 above limit of 40'])
+        assert.equal(operations().includes('order'), false)
+    })
+
+    it('doesn\'t count orders that fail validation against the order rate', async () => {
+        await start({ risk: { maxOrdersPerSecond: 1 } })
+        const request = (quantity: number): BatchOrdersRequest => ({
+            event: 'BatchOrdersRequest',
+            symbol: 'BTC-USDT',
+            connectorType: 'Okx',
+            timestamp: Date.now(),
+            orders: [{ side: 'Buy', type: 'Limit', price: 100, quantity }],
+        })
+        await assert.rejects(connector.placeOrders(request(0.00001)), OkxOrderValidationError)
+        const [placed] = await connector.placeOrders(request(0.5))
+        assert.equal(placed.sCode, '0')
+        assert.equal(orderUpdates().some((update: OrderStatusUpdate) => update.state === 'Rejected'), false)
+    })
+
+    it('reports an empty balance for an account without a balance entry', async () => {
+        mock.setRestHandler('GET', '/api/v5/account/balance', () => ({ code: '0', msg: '', data: [] }))
+        connector = new OkxSpotPrivateConnector({ name: 'BTC' }, {
+            connectorType: 'Okx',
+            quoteAsset: 'USDT',
+            endpoints: mock.endpoints,
+            cancelOnStop: false,
+        }, credential)
+        await connector.connect((messages: Serializable[]) => events.push(...messages))
+        const balance = await connector.getBalancePercentage({
+            event: 'BalanceRequest',
+            symbol: 'BTC-USDT',
+            connectorType: 'Okx',
+            timestamp: Date.now(),
+            lastPrice: 100,
+        })
+        assert.deepEqual([balance.baseBalance, balance.quoteBalance, balance.inventory], [0, 0, 0])
+    })
+})
@@ -0,0 +1,129 @@
+import assert from 'node:assert/strict'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import { OKXSpotPublicConnector } from '../connectors/public/okx-spot-public-connector'
+import { BookInvalidated, ConnectorConfiguration, OrderBook, Serializable, SubscriptionStatus, TopOfBook } from '../types'
+import { Logger } from '../util/logging'
+import { OkxMockExchange } from './okx-mock-exchange'
+import { waitFor } from './wait-for'
+
+Logger.setLevel('error')
+
+describe('OKXSpotPublicConnector against OkxMockExchange', () => {
+
+    let mock: OkxMockExchange
+    let connector: OKXSpotPublicConnector
+    let events: Serializable[]
+
+    const topOfBooks = (): TopOfBook[] => events.filter((event: Serializable) => event.event === 'TopOfBook') as TopOfBook[]
+    const invalidations = (): BookInvalidated[] => events.filter((event: Serializable) => event.event === 'BookInvalidated') as BookInvalidated[]
+    const bookSubscribes = (): number => mock.received.ws
+        .filter((message: any) => message.op === 'subscribe' && message.args.some((arg: any) => arg.channel === 'books'))
+        .length
+
+    const start = async (config: Partial<ConnectorConfiguration> = {}) => {
+        connector = new OKXSpotPublicConnector({ name: 'BTC' }, {
+            connectorType: 'Okx',
+            quoteAsset: 'USDT',
+            endpoints: mock.endpoints,
+            channels: ['books'],
+            bookDepth: 5,
+            ...config,
+        })
+        await connector.connect((messages: Serializable[]) => events.push(...messages))
+        await waitFor('the first TopOfBook', () => topOfBooks().length > 0)
+    }
+
+    beforeEach(async () => {
+        mock = new OkxMockExchange()
+        await mock.start()
+        // sent as the snapshot when the connector subscribes
+        mock.publishBook('BTC-USDT', 'snapshot', [['100', '1', '0', '1']], [['101', '2', '0', '1']])
+        events = []
+    })
+
+    afterEach(async () => {
+        await connector.stop()
+        await mock.stop()
+    })
+
+    it('builds the book from the snapshot and applies checksummed updates', async () => {
+        await start()
+        assert.deepEqual(topOfBooks()[0], {
+            symbol: 'BTC-USDT', connectorType: 'Okx', event: 'TopOfBook', timestamp: topOfBooks()[0].timestamp,
+            bidPrice: 100, bidSize: 1, askPrice: 101, askSize: 2,
+        })
+
+        mock.publishBook('BTC-USDT', 'update', [['100.5', '3', '0', '1']], [['101', '0', '0', '0'], ['102', '1', '0', '1']])
+        const top = await waitFor('the updated TopOfBook', () => topOfBooks().find((event: TopOfBook) => event.bidPrice === 100.5))
+        assert.equal(top.bidSize, 3)
+        assert.equal(top.askPrice, 102)
+        const book = events.filter((event: Serializable) => event.event === 'OrderBook').pop() as OrderBook
+        assert.deepEqual(book.bids, [{ price: 100.5, size: 3 }, { price: 100, size: 1 }])
+        assert.deepEqual(book.asks, [{ price: 102, size: 1 }])
+        assert.equal(invalidations().length, 0)
+    })
+
+    it('accepts pushes carrying checksums OKX computed', async () => {
+        await start()
+        // the example book of OKX's checksum documentation, "3366.1:7:3366.8:9:3366:6:3368:8"
+        mock.publishBook('BTC-USDT', 'snapshot', [['3366.1', '7', '0', '3'], ['3366', '6', '3', '4']], [['3366.8', '9', '10', '3'], ['3368', '8', '3', '4']], -1881014294)
+        const snapshot = await waitFor('the documented snapshot', () => topOfBooks().find((event: TopOfBook) => event.bidPrice === 3366.1))
+        // "3366.1:7:3366.8:9:3366:6" once the second ask is gone
+        mock.publishBook('BTC-USDT', 'update', [], [['3368', '0', '0', '0']], 1164732920)
+        const updated = () => events.slice(events.indexOf(snapshot)).find((event: Serializable) => event.event === 'OrderBook' && (event as OrderBook).asks.length === 1)
+        const book = await waitFor('the updated OrderBook', updated) as OrderBook
+        assert.deepEqual(book.asks, [{ price: 3366.8, size: 9 }])
+        assert.equal(invalidations().length, 0)
+        assert.equal(bookSubscribes(), 1)
+    })
+
+    it('resubscribes for a fresh snapshot after a checksum mismatch', async () => {
+        await start()
+        mock.publishBook('BTC-USDT', 'update', [['100.5', '3', '0', '1']], [], 12345)
+
+        const invalidated = await waitFor('BookInvalidated', () => invalidations()[0])
+        assert.equal(invalidated.reason, 'Checksum mismatch')
+        await waitFor('the resubscribe', () => bookSubscribes() === 2)
+        // the mock's snapshot includes the update the checksum was wrong for
+        await waitFor('the rebuilt TopOfBook', () => topOfBooks().find((event: TopOfBook) => event.bidPrice === 100.5))
+    })
+
+    it('resubscribes after a sequence gap', async () => {
+        await start()
+        mock.publishBook('BTC-USDT', 'update', [['99', '1', '0', '1']], [], undefined, { prevSeqId: 50, seqId: 51 })
+
+        const invalidated = await waitFor('BookInvalidated', () => invalidations()[0])
+        assert.match(invalidated.reason, /^Sequence gap/)
+        await waitFor('the resubscribe', () => bookSubscribes() === 2)
+        const book = await waitFor('the rebuilt OrderBook', () => events.slice(events.indexOf(invalidated)).find((event: Serializable) => event.event === 'OrderBook')) as OrderBook
+        assert.deepEqual(book.bids, [{ price: 100, size: 1 }, { price: 99, size: 1 }])
+    })
+
+    it('rebuilds the book from a REST snapshot after a sequence gap in Snapshot mode', async () => {
+        await start({ bookResync: 'Snapshot' })
+        mock.publishBook('BTC-USDT', 'update', [['99', '1', '0', '1']], [], undefined, { prevSeqId: 50, seqId: 51 })
+
+        const invalidated = await waitFor('BookInvalidated', () => invalidations()[0])
+        const book = await waitFor('the rebuilt OrderBook', () => events.slice(events.indexOf(invalidated)).find((event: Serializable) => event.event === 'OrderBook')) as OrderBook
+        assert.deepEqual(book.bids, [{ price: 100, size: 1 }, { price: 99, size: 1 }])
+        assert.ok(mock.received.rest.some((request) => request.path === '/api/v5/market/books'))
+        assert.equal(bookSubscribes(), 1)
+    })
+
+    it('reconnects and resubscribes after the connection drops', async () => {
+        await start()
+        mock.disconnectAll()
+
+        const invalidated = await waitFor('BookInvalidated', () => invalidations()[0])
+        assert.equal(invalidated.reason, 'Connection closed')
+        await waitFor('the resubscribe', () => bookSubscribes() === 2)
+        const subscribed = () => events
+            .filter((event: Serializable) => event.event === 'SubscriptionStatus')
+            .filter((event: Serializable) => (event as SubscriptionStatus).status === 'Subscribed')
+        await waitFor('the second Subscribed status', () => subscribed().length === 2)
+
+        const reconnected = events.length
+        mock.publishBook('BTC-USDT', 'update', [['100.2', '1', '0', '1']], [])
+        await waitFor('a TopOfBook on the new connection', () => events.slice(reconnected).find((event: Serializable) => event.event === 'TopOfBook' && event.bidPrice === 100.2))
+    })
+})
@@ -0,0 +1,53 @@
+import assert from 'node:assert/strict'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import { OkxConnectionState, OkxWebsocketSession } from '../connectors/public/okx-spot-websocket-session'
+import { OkxSubscriptionRegistry } from '../connectors/public/okx-spot-subscriptions'
+import { Logger } from '../util/logging'
+import { OkxMockExchange } from './okx-mock-exchange'
+import { waitFor } from './wait-for'
+
+Logger.setLevel('error')
+
+describe('OkxWebsocketSession', () => {
+
+    let mock: OkxMockExchange
+    let session: OkxWebsocketSession
+    let states: OkxConnectionState[]
+
+    beforeEach(async () => {
+        mock = new OkxMockExchange()
+        await mock.start()
+        session = new OkxWebsocketSession({
+            name: 'okx-spot-test-session',
+            url: mock.publicUrl,
+            subscriptions: new OkxSubscriptionRegistry('t'),
+            minReconnectDelay: 10,
+        })
+        states = []
+        session.on('state', (state: OkxConnectionState) => states.push(state))
+    })
+
+    afterEach(async () => {
+        session.stop()
+        await mock.stop()
+    })
+
+    it('stops while still connecting without throwing or reconnecting', async () => {
+        session.start()
+        assert.equal(session.state, 'connecting')
+        session.stop()
+
+        await new Promise((resolve) => setTimeout(resolve, 100))
+        assert.deepEqual(states, ['connecting', 'closed'])
+        assert.equal(session.reconnectCount, 0)
+    })
+
+    it('reconnects after the connection drops until stopped', async () => {
+        await session.start()
+        mock.disconnectAll()
+
+        await waitFor('the reconnect', () => session.reconnectCount === 1 && session.state === 'open')
+        session.stop()
+        assert.equal(session.state, 'closed')
+    })
+})
@@ -0,0 +1,83 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { OrderStore } from '../orders/order-store'
+import { OrderState, OrderStatusUpdate } from '../types'
+import { Logger } from '../util/logging'
+
+Logger.setLevel('error')
+
+const update = (state: OrderState, filledSize: number = 0, filledPrice: number = 0, timestamp: number = 0): OrderStatusUpdate => ({
+    symbol: 'BTC-USDT',
+    connectorType: 'Okx',
+    event: 'OrderStatusUpdate',
+    state,
+    orderId: '1',
+    sklOrderId: 'order1',
+    side: 'Buy',
+    price: 100,
+    size: 3,
+    notional: 300,
+    filled_price: filledPrice,
+    filled_size: filledSize,
+    timestamp,
+})
+
+describe('OrderStore', () => {
+
+    it('derives one fill per change in the filled size, priced from the average', () => {
+        const store = new OrderStore()
+        assert.equal(store.apply(update('Placed'))!.fill, undefined)
+
+        const first = store.apply(update('PartiallyFilled', 1, 100, 1))!
+        assert.deepEqual([first.fill!.size, first.fill!.price, first.fill!.timestamp], [1, 100, 1])
+        // an average of 102 over 3 means the last 2 filled at 103
+        const second = store.apply(update('Filled', 3, 102, 2))!
+        assert.deepEqual([second.fill!.size, second.fill!.price], [2, 103])
+        assert.deepEqual([second.order.state, second.order.filledSize, second.order.filledPrice], ['Filled', 3, 102])
+        assert.deepEqual(store.getOpenOrders(), [])
+    })
+
+    it('creates no fill for updates that don\'t change the filled size', () => {
+        const store = new OrderStore()
+        store.apply(update('PartiallyFilled', 1, 100))
+        const amended = store.apply({ ...update('PartiallyFilled', 1, 100), price: 99 })!
+        assert.equal(amended.fill, undefined)
+        assert.equal(amended.order.price, 99)
+    })
+
+    it('reports an order first seen partially filled with its whole fill', () => {
+        const store = new OrderStore()
+        const result = store.apply(update('PartiallyFilled', 1.5, 100))!
+        assert.deepEqual([result.fill!.size, result.fill!.price], [1.5, 100])
+    })
+
+    it('ignores transitions out of final states', () => {
+        const store = new OrderStore()
+        store.apply(update('Placed'))
+        store.apply(update('Cancelled'))
+        assert.equal(store.apply(update('Placed')), null)
+        assert.equal(store.apply(update('PartiallyFilled', 1, 100)), null)
+        assert.equal(store.getOrder('1')!.state, 'Cancelled')
+
+        store.apply({ ...update('Placed'), orderId: '2', sklOrderId: 'order2' })
+        store.apply({ ...update('Filled', 3, 100), orderId: '2', sklOrderId: 'order2' })
+        assert.equal(store.apply({ ...update('Cancelled', 3, 100), orderId: '2', sklOrderId: 'order2' }), null)
+    })
+
+    it('ignores a partially filled order going back to placed or its filled size shrinking', () => {
+        const store = new OrderStore()
+        store.apply(update('PartiallyFilled', 2, 100))
+        assert.equal(store.apply(update('Placed', 2, 100)), null)
+        assert.equal(store.apply(update('PartiallyFilled', 1, 100)), null)
+        assert.deepEqual([store.getOrder('1')!.state, store.getOrder('1')!.filledSize], ['PartiallyFilled', 2])
+    })
+
+    it('finds orders by orderId or sklOrderId', () => {
+        const store = new OrderStore()
+        store.apply(update('Placed'))
+        assert.equal(store.getOrder('order1')!.orderId, '1')
+        assert.equal(store.getOrder('1')!.sklOrderId, 'order1')
+        assert.deepEqual(store.getOpenOrders('BTC-USDT').map((order) => order.orderId), ['1'])
+        assert.deepEqual(store.getOpenOrders('ETH-USDT'), [])
+    })
+})
@@ -0,0 +1,85 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { RiskContext, RiskDecision, RiskGate } from '../orders/risk-gate'
+import { Order, RiskConfiguration } from '../types'
+import { Logger } from '../util/logging'
+
+Logger.setLevel('error')
+
+const context: RiskContext = { symbol: 'BTC-USDT', openOrders: 0, baseBalance: 1, quoteBalance: 100 }
+
+const buy = (quantity: number, price: number = 100): Order => ({ side: 'Buy', type: 'Limit', price, quantity })
+const sell = (quantity: number, price: number = 100): Order => ({ side: 'Sell', type: 'Limit', price, quantity })
+const marketBuy = (quantity: number): Order => ({ side: 'Buy', type: 'Market', price: 0, quantity })
+
+// a gate with a TopOfBook around a mid of 100
+const createGate = (limits: RiskConfiguration): RiskGate => {
+    const gate = new RiskGate(limits)
+    gate.update({ symbol: 'BTC-USDT', connectorType: 'Okx', event: 'TopOfBook', timestamp: 0, bidPrice: 99.5, bidSize: 1, askPrice: 100.5, askSize: 1 })
+    return gate
+}
+
+const reasons = (decisions: RiskDecision[]): (string | undefined)[] => decisions.map((decision: RiskDecision) => decision.reason)
+
+describe('RiskGate', () => {
+
+    it('rejects orders above the notional limit', () => {
+        const gate = createGate({ maxOrderNotional: 1000 })
+        assert.deepEqual(reasons(gate.check([buy(10), buy(10, 101)], context)), [undefined, 'Notional 1010 above limit of 1000'])
+        // market orders are valued at the mid
+        assert.deepEqual(reasons(gate.check([marketBuy(11)], context)), ['Notional 1100 above limit of 1000'])
+    })
+
+    it('values limit orders without a TopOfBook but holds market orders back', () => {
+        const gate = new RiskGate({ maxOrderNotional: 1000 })
+        assert.deepEqual(reasons(gate.check([buy(1), marketBuy(1)], context)), [undefined, 'No TopOfBook for BTC-USDT'])
+    })
+
+    it('forgets the mid when the book is invalidated', () => {
+        const gate = createGate({ priceCollar: 0.02 })
+        gate.update({ symbol: 'BTC-USDT', connectorType: 'Okx', event: 'BookInvalidated', timestamp: 0, reason: 'Checksum mismatch' })
+        assert.deepEqual(reasons(gate.check([buy(1)], context)), ['No TopOfBook for BTC-USDT'])
+    })
+
+    it('limits the position after accepted buys in the same request', () => {
+        const gate = createGate({ maxPosition: 2 })
+        assert.deepEqual(reasons(gate.check([buy(0.6), buy(0.4), buy(0.1)], context)), [undefined, undefined, 'Position 2.1 above limit of 2'])
+        // sells only reduce the position
+        assert.deepEqual(reasons(gate.check([sell(5)], context)), [undefined])
+    })
+
+    it('keeps the inventory within its bounds', () => {
+        const gate = createGate({ maxInventory: 70, minInventory: 30 })
+        // 1 BTC at 100 and 100 USDT is 50%
+        assert.deepEqual(reasons(gate.check([buy(0.3), buy(0.5)], context)), [undefined, 'Inventory 90.00% above limit of 70%'])
+        assert.deepEqual(reasons(gate.check([sell(0.5)], context)), ['Inventory 25.00% below limit of 30%'])
+        assert.deepEqual(reasons(gate.check([sell(0.3)], context)), [undefined])
+    })
+
+    it('counts accepted orders against the open order limit', () => {
+        const gate = createGate({ maxOpenOrders: 2 })
+        assert.deepEqual(reasons(gate.check([buy(0.1), buy(0.1)], { ...context, openOrders: 1 })), [undefined, 'Open orders at limit of 2'])
+    })
+
+    it('rejects limit prices outside the collar', () => {
+        const gate = createGate({ priceCollar: 0.02 })
+        assert.deepEqual(reasons(gate.check([buy(1, 97.9), buy(1, 98.5), sell(1, 102.1), marketBuy(1)], context)),
+            ['Price 97.9 outside 2% collar around 100', undefined, 'Price 102.1 outside 2% collar around 100', undefined])
+    })
+
+    it('limits the order rate over a sliding second', () => {
+        const gate = createGate({ maxOrdersPerSecond: 2 })
+        assert.deepEqual(reasons(gate.check([buy(0.1), buy(0.1), buy(0.1)], context, 1000)), [undefined, undefined, 'Order rate above 2 per second'])
+        assert.deepEqual(reasons(gate.check([buy(0.1)], context, 1999)), ['Order rate above 2 per second'])
+        assert.deepEqual(reasons(gate.check([buy(0.1)], context, 2000)), [undefined])
+    })
+
+    it('rejects everything while the kill switch is active', () => {
+        const gate = createGate({})
+        gate.kill('Drawdown')
+        assert.equal(gate.isKilled(), true)
+        assert.deepEqual(reasons(gate.check([buy(0.1), sell(0.1)], context)), ['Kill switch active: Drawdown', 'Kill switch active: Drawdown'])
+        gate.release()
+        assert.deepEqual(reasons(gate.check([buy(0.1)], context)), [undefined])
+    })
+})
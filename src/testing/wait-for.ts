@@ -0,0 +1,14 @@
+// polls until find returns something other than undefined or false, for tests against the mock exchange
+export const waitFor = async <T>(description: string, find: () => T | undefined | false, timeout: number = 5000): Promise<T> => {
+    const deadline = Date.now() + timeout
+    for (;;) {
+        const found = find()
+        if (found !== undefined && found !== false) {
+            return found
+        }
+        if (Date.now() > deadline) {
+            throw new Error(`Timed out after ${timeout}ms waiting for ${description}`)
+        }
+        await new Promise((resolve) => setTimeout(resolve, 10))
+    }
+}
@@ -0,0 +1,32 @@
+import { ConnectorConfiguration, ConnectorGroup, ConnectorType, Credential, CredentialProvider, PrivateExchangeConnector, PublicExchangeConnector } from '.'
+
+export interface ConnectorRegistration {
+    publicConnector: (group: ConnectorGroup, config: ConnectorConfiguration, credential?: Credential | CredentialProvider) => PublicExchangeConnector;
+    privateConnector: (group: ConnectorGroup, config: ConnectorConfiguration, credential?: Credential | CredentialProvider) => PrivateExchangeConnector;
+}
+
+// Exchange connectors register themselves by connectorType, see src/connectors/index.ts
+export class ConnectorFactory {
+
+    private static registrations: Map<ConnectorType, ConnectorRegistration> = new Map()
+
+    public static register(connectorType: ConnectorType, registration: ConnectorRegistration) {
+        ConnectorFactory.registrations.set(connectorType, registration)
+    }
+
+    public static getPublicConnector(group: ConnectorGroup, config: ConnectorConfiguration, credential?: Credential | CredentialProvider): PublicExchangeConnector {
+        return ConnectorFactory.getRegistration(config).publicConnector(group, config, credential)
+    }
+
+    public static getPrivateConnector(group: ConnectorGroup, config: ConnectorConfiguration, credential?: Credential | CredentialProvider): PrivateExchangeConnector {
+        return ConnectorFactory.getRegistration(config).privateConnector(group, config, credential)
+    }
+
+    private static getRegistration(config: ConnectorConfiguration): ConnectorRegistration {
+        const registration = ConnectorFactory.registrations.get(config.connectorType)
+        if (registration === undefined) {
+            throw new Error(`No connector registered for connectorType ${config.connectorType}`)
+        }
+        return registration
+    }
+}
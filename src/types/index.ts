@@ -0,0 +1,394 @@
+export type ConnectorType = 'Okx'
+
+export type Side = 'Buy' | 'Sell'
+
+export type OrderState = 'Placed' | 'PartiallyFilled' | 'Filled' | 'Cancelled' | 'Rejected'
+
+export type OrderType = 'Limit' | 'Market' | 'LimitMaker' | 'ImmediateOrCancel' | 'FillOrKill' | 'OptimalLimitImmediateOrCancel'
+
+export type SklEvent =
+    'Trade' |
+    'TopOfBook' |
+    'Ticker' |
+    'IndexPrice' |
+    'Candle' |
+    'OrderBook' |
+    'BookInvalidated' |
+    'SubscriptionStatus' |
+    'OrderStatusUpdate' |
+    'OrderFill' |
+    'PnlUpdate' |
+    'BatchOrdersRequest' |
+    'CancelOrdersRequest' |
+    'AmendOrdersRequest' |
+    'OpenOrdersRequest' |
+    'BalanceRequest' |
+    'BalanceResponse' |
+    'BalanceUpdate'
+
+export type BookResyncMode = 'Resubscribe' | 'Snapshot'
+
+export type ExchangeEnvironment = 'Global' | 'EEA' | 'US' | 'AWS' | 'Demo'
+
+export interface ConnectorGroup {
+    name: string;
+    // public channels for this instrument instead of the configuration's, e.g. a different depth channel
+    channels?: string[];
+}
+
+export interface ConnectorConfiguration {
+    connectorType: ConnectorType;
+    quoteAsset: string;
+    // exchange endpoints to connect to, EEA when unset
+    environment?: ExchangeEnvironment;
+    // replace single URLs of the environment, e.g. to point at a local stand-in
+    endpoints?: ConnectorEndpoints;
+    // Prometheus metrics and stale feed alerts, off when unset
+    metrics?: MetricsConfiguration;
+    // public channels subscribed for every instrument, defaults to tickers, trades and books. The depth
+    // channel is one of books, books5, bbo-tbt or books50-l2-tbt, the latter needs a credential
+    channels?: string[];
+    // extra instruments subscribed next to the connector's own group
+    groups?: ConnectorGroup[];
+    // number of levels emitted in OrderBook events, none are emitted when unset
+    bookDepth?: number;
+    // how a book is rebuilt after a sequence gap or checksum mismatch: subscribing again
+    // for a fresh snapshot (default) or fetching one from REST while updates are buffered
+    bookResync?: BookResyncMode;
+    // Candle events built from trades for each interval, e.g. 1s, 1m, 1H, 1D
+    candleIntervals?: string[];
+    // instruments are cached here so a connector can start without reaching the exchange
+    instrumentCachePath?: string;
+    // round prices and sizes to the instrument rules, or reject orders that don't match them
+    orderRounding?: 'round' | 'reject';
+    // the private connector cancels its open orders when stopped unless this is false
+    cancelOnStop?: boolean;
+    // orders are simulated against the public feed instead of being sent to the exchange
+    paperTrading?: PaperTradingConfiguration;
+    // pre-trade checks applied to every order before it is sent
+    risk?: RiskConfiguration;
+    // ms between PnlUpdate events, none are sent when unset
+    pnlInterval?: number;
+    // the fills channel reports executions before the orders channel, it needs a VIP6 or higher account
+    fillsChannel?: boolean;
+    // raw public frames are written to disk as they are received
+    recording?: RecordingConfiguration;
+    // the public connector plays back a recording instead of connecting to the exchange
+    replay?: ReplayConfiguration;
+}
+
+export interface MetricsConfiguration {
+    // serves /metrics and /health on this port when set, metrics are still collected without it
+    port?: number;
+    // 127.0.0.1 by default
+    host?: string;
+    // ms without a message before a subscribed channel is reported stale, 60000 by default
+    staleAfter?: number;
+    // per channel thresholds, e.g. { "trades": 300000 } for quiet markets
+    staleThresholds?: { [channel: string]: number };
+}
+
+export interface ConnectorEndpoints {
+    publicWebsocket?: string;
+    privateWebsocket?: string;
+    businessWebsocket?: string;
+    rest?: string;
+}
+
+export interface PaperTradingConfiguration {
+    // starting balance per currency
+    balances: { [currency: string]: number };
+    makerFee?: number;
+    takerFee?: number;
+    // simulated order entry delay in ms
+    latency?: number;
+}
+
+export interface RiskConfiguration {
+    // price times quantity, in the quote asset
+    maxOrderNotional?: number;
+    // base asset held once the order is filled
+    maxPosition?: number;
+    // percentage of the pair's value held in the base asset once the order is filled, as in BalanceResponse.inventory
+    maxInventory?: number;
+    minInventory?: number;
+    maxOpenOrders?: number;
+    // largest distance from the TopOfBook mid, as a fraction of the mid
+    priceCollar?: number;
+    maxOrdersPerSecond?: number;
+}
+
+export interface RecordingConfiguration {
+    directory: string;
+    // uncompressed bytes written before a new file is started
+    maxFileSize?: number;
+    // ms before a new file is started
+    rotateInterval?: number;
+}
+
+export interface ReplayConfiguration {
+    // a recorded file or a directory of them
+    path: string;
+    // 1 is real time, 10 ten times faster, 0 as fast as possible
+    speed?: number;
+}
+
+export interface Credential {
+    key: string;
+    secret: string;
+    passphrase: string;
+}
+
+export type CredentialSourceType = 'Environment' | 'File' | 'Keystore'
+
+export interface CredentialSource {
+    type: CredentialSourceType;
+    // File and Keystore
+    path?: string;
+    // Environment, variables are read as <prefix>_API_KEY, <prefix>_API_SECRET and <prefix>_API_PASSPHRASE, OKX by default
+    prefix?: string;
+    // Keystore, environment variable holding the password, OKX_KEYSTORE_PASSWORD by default
+    passwordVariable?: string;
+    // ms between reloads of the source, rotated keys are picked up without a restart
+    rotateInterval?: number;
+}
+
+export interface CredentialProvider {
+    getCredential(): Credential;
+    // called with the new credential whenever the source changes
+    onRotate(listener: (credential: Credential) => void): void;
+    stop(): void;
+}
+
+export interface ConnectorSettings {
+    group: ConnectorGroup;
+    config: ConnectorConfiguration;
+    // inline credential, kept for development, prefer credentialSource
+    credential?: Credential;
+    credentialSource?: CredentialSource;
+}
+
+interface BaseSklEvent {
+    symbol: string;
+    connectorType: ConnectorType;
+    event: SklEvent;
+    timestamp: number;
+}
+
+export interface Trade extends BaseSklEvent {
+    event: 'Trade';
+    price: number;
+    size: number;
+    side?: Side;
+}
+
+export interface TopOfBook extends BaseSklEvent {
+    event: 'TopOfBook';
+    askPrice: number;
+    askSize: number;
+    bidPrice: number;
+    bidSize: number;
+}
+
+export interface Ticker extends BaseSklEvent {
+    event: 'Ticker';
+    lastPrice: number;
+    bidPrice: number;
+    bidSize: number;
+    askPrice: number;
+    askSize: number;
+    // rolling 24 hours
+    open24h: number;
+    high24h: number;
+    low24h: number;
+    // in the base asset
+    volume24h: number;
+    // in the quote asset
+    quoteVolume24h: number;
+}
+
+// the exchange's index price of the pair, aggregated over several venues
+export interface IndexPrice extends BaseSklEvent {
+    event: 'IndexPrice';
+    price: number;
+    open24h: number;
+    high24h: number;
+    low24h: number;
+}
+
+// candles built locally from trades, or pushed by the exchange's candle channels
+export type CandleSource = 'Trades' | 'Exchange'
+
+export interface Candle extends BaseSklEvent {
+    event: 'Candle';
+    // timestamp is the start of the bar
+    interval: string;
+    source: CandleSource;
+    open: number;
+    high: number;
+    low: number;
+    close: number;
+    volume: number;
+    // false while the bar can still change
+    closed: boolean;
+}
+
+export interface BookLevel {
+    price: number;
+    size: number;
+}
+
+export interface OrderBook extends BaseSklEvent {
+    event: 'OrderBook';
+    bids: BookLevel[];
+    asks: BookLevel[];
+}
+
+export interface BookInvalidated extends BaseSklEvent {
+    event: 'BookInvalidated';
+    // the book is trustworthy again with the next TopOfBook
+    reason: string;
+}
+
+export type SubscriptionState = 'Subscribed' | 'Unsubscribed' | 'Failed'
+
+export interface SubscriptionStatus extends BaseSklEvent {
+    event: 'SubscriptionStatus';
+    channel: string;
+    status: SubscriptionState;
+    reason?: string;
+}
+
+export interface OrderStatusUpdate extends BaseSklEvent {
+    event: 'OrderStatusUpdate';
+    state: OrderState;
+    orderId: string;
+    sklOrderId: string;
+    side: Side;
+    price: number;
+    size: number;
+    notional: number;
+    filled_price: number;
+    filled_size: number;
+    // why the order was rejected, when known
+    reason?: string;
+}
+
+// a single execution, derived from the change in an order's filled size
+export interface OrderFill extends BaseSklEvent {
+    event: 'OrderFill';
+    orderId: string;
+    sklOrderId: string;
+    side: Side;
+    price: number;
+    size: number;
+    // exchange trade id, fee and fee currency when the exchange reports them per execution; negative fees are charges
+    tradeId?: string;
+    fee?: number;
+    feeCurrency?: string;
+}
+
+// position and PnL from our own fills, in the quote asset
+export interface PnlUpdate extends BaseSklEvent {
+    event: 'PnlUpdate';
+    position: number;
+    averageCost: number;
+    realizedPnl: number;
+    unrealizedPnl: number;
+    fees: number;
+    // TopOfBook mid the position is marked at
+    markPrice?: number;
+}
+
+export interface Order {
+    sklOrderId?: string;
+    side: Side;
+    type: OrderType;
+    price: number;
+    quantity: number;
+}
+
+export interface BatchOrdersRequest extends BaseSklEvent {
+    event: 'BatchOrdersRequest';
+    orders: Order[];
+}
+
+export interface CancelOrdersRequest extends BaseSklEvent {
+    event: 'CancelOrdersRequest';
+    // exchange order ids
+    orderIds?: string[];
+    sklOrderIds?: string[];
+}
+
+// identifies the order by orderId or sklOrderId, and changes its price and/or quantity
+export interface OrderAmendment {
+    orderId?: string;
+    sklOrderId?: string;
+    price?: number;
+    quantity?: number;
+}
+
+export interface AmendOrdersRequest extends BaseSklEvent {
+    event: 'AmendOrdersRequest';
+    amendments: OrderAmendment[];
+}
+
+export interface OpenOrdersRequest extends BaseSklEvent {
+    event: 'OpenOrdersRequest';
+}
+
+export interface BalanceRequest extends BaseSklEvent {
+    event: 'BalanceRequest';
+    lastPrice: number;
+}
+
+export interface BalanceResponse {
+    event: 'BalanceResponse';
+    symbol: string;
+    baseBalance: number;
+    quoteBalance: number;
+    // base value as a percentage of the pair's total value
+    inventory: number;
+    timestamp: number;
+}
+
+export interface BalanceUpdate extends BaseSklEvent {
+    event: 'BalanceUpdate';
+    currency: string;
+    cash: number;
+    frozen: number;
+    available: number;
+}
+
+export type Serializable =
+    Trade |
+    TopOfBook |
+    Ticker |
+    IndexPrice |
+    Candle |
+    OrderBook |
+    BookInvalidated |
+    SubscriptionStatus |
+    OrderStatusUpdate |
+    OrderFill |
+    PnlUpdate |
+    BalanceResponse |
+    BalanceUpdate
+
+export interface PublicExchangeConnector {
+    connect(onMessage: (message: Serializable[]) => void): Promise<any>;
+    stop(): Promise<void>;
+}
+
+export interface PrivateExchangeConnector {
+    connect(onMessage: (message: Serializable[]) => void): Promise<any>;
+    stop(): Promise<void>;
+    placeOrders(request: BatchOrdersRequest): Promise<any>;
+    deleteAllOrders(request: CancelOrdersRequest): Promise<void>;
+    cancelOrders(request: CancelOrdersRequest): Promise<any>;
+    amendOrders(request: AmendOrdersRequest): Promise<any>;
+    getCurrentActiveOrders(request: OpenOrdersRequest): Promise<OrderStatusUpdate[]>;
+    getBalancePercentage(request: BalanceRequest): Promise<BalanceResponse>;
+}
+
+export { ConnectorFactory, ConnectorRegistration } from './connector-factory'
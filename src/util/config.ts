@@ -0,0 +1,18 @@
+import { readFileSync } from 'fs'
+import { ConnectorConfiguration, ConnectorGroup, ConnectorSettings } from '../types'
+
+export const getSklSymbol = (group: ConnectorGroup, config: ConnectorConfiguration): string => {
+    return `${group.name}-${config.quoteAsset}`
+}
+
+// reads a JSON file shaped as { group, config, credential? }
+export const loadConnectorSettings = (path: string): ConnectorSettings => {
+    const settings = JSON.parse(readFileSync(path, 'utf8')) as ConnectorSettings
+    if (settings.group?.name === undefined) {
+        throw new Error(`Missing group.name in ${path}`)
+    }
+    if (settings.config?.connectorType === undefined || settings.config.quoteAsset === undefined) {
+        throw new Error(`Missing config.connectorType or config.quoteAsset in ${path}`)
+    }
+    return settings
+}
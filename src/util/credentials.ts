@@ -0,0 +1,192 @@
+import * as crypto from 'crypto'
+import { readFileSync, statSync, writeFileSync } from 'fs'
+import { ConnectorSettings, Credential, CredentialProvider, CredentialSource } from '../types'
+import { Logger } from './logging'
+import { registerSecret } from './redaction'
+
+interface Keystore {
+    version: 1;
+    kdf: 'scrypt';
+    salt: string;
+    iv: string;
+    tag: string;
+    data: string;
+}
+
+const KeystoreCipher = 'aes-256-gcm'
+const KeystoreKeyLength = 32
+
+const logger = Logger.getInstance('credentials')
+
+const validateCredential = (credential: Partial<Credential>, source: string): Credential => {
+    if (!credential.key || !credential.secret || !credential.passphrase) {
+        throw new Error(`Incomplete credential from ${source}, expected key, secret and passphrase`)
+    }
+    const { key, secret, passphrase } = credential
+    registerSecret(key)
+    registerSecret(secret)
+    registerSecret(passphrase)
+    return { key, secret, passphrase }
+}
+
+const getSourcePath = (source: CredentialSource): string => {
+    if (source.path === undefined) {
+        throw new Error(`A path is required for ${source.type} credentials`)
+    }
+    return source.path
+}
+
+export const loadEnvironmentCredential = (prefix: string = 'OKX'): Credential => {
+    return validateCredential({
+        key: process.env[`${prefix}_API_KEY`],
+        secret: process.env[`${prefix}_API_SECRET`],
+        passphrase: process.env[`${prefix}_API_PASSPHRASE`],
+    }, `${prefix}_API_* environment variables`)
+}
+
+// a JSON file shaped as { key, secret, passphrase }
+export const loadCredentialFile = (path: string): Credential => {
+    return validateCredential(JSON.parse(readFileSync(path, 'utf8')), path)
+}
+
+export const encryptKeystore = (credential: Credential, password: string): string => {
+    const salt = crypto.randomBytes(16)
+    const iv = crypto.randomBytes(12)
+    const cipher = crypto.createCipheriv(KeystoreCipher, crypto.scryptSync(password, salt, KeystoreKeyLength), iv)
+    const data = Buffer.concat([cipher.update(JSON.stringify(credential), 'utf8'), cipher.final()])
+    const keystore: Keystore = {
+        version: 1,
+        kdf: 'scrypt',
+        salt: salt.toString('base64'),
+        iv: iv.toString('base64'),
+        tag: cipher.getAuthTag().toString('base64'),
+        data: data.toString('base64'),
+    }
+    return JSON.stringify(keystore, null, 4)
+}
+
+export const writeKeystore = (path: string, credential: Credential, password: string) => {
+    writeFileSync(path, encryptKeystore(credential, password), { mode: 0o600 })
+}
+
+export const loadKeystore = (path: string, password: string): Credential => {
+    const keystore = JSON.parse(readFileSync(path, 'utf8')) as Keystore
+    if (keystore.version !== 1 || keystore.kdf !== 'scrypt') {
+        throw new Error(`Unsupported keystore ${path}`)
+    }
+    const key = crypto.scryptSync(password, Buffer.from(keystore.salt, 'base64'), KeystoreKeyLength)
+    const decipher = crypto.createDecipheriv(KeystoreCipher, key, Buffer.from(keystore.iv, 'base64'))
+    decipher.setAuthTag(Buffer.from(keystore.tag, 'base64'))
+    let plain: string
+    try {
+        plain = Buffer.concat([decipher.update(Buffer.from(keystore.data, 'base64')), decipher.final()]).toString('utf8')
+    } catch (error) {
+        throw new Error(`Cannot decrypt keystore ${path}, wrong password or corrupted file`)
+    }
+    return validateCredential(JSON.parse(plain), path)
+}
+
+// Holds the credential of a source and reloads it every rotateInterval. A reload that fails
+// keeps the previous credential, listeners are only called when the credential changed.
+export class ReloadingCredentialProvider implements CredentialProvider {
+
+    private credential: Credential
+    private listeners: ((credential: Credential) => void)[] = []
+    private timer: NodeJS.Timeout | undefined
+
+    constructor(private name: string, private load: () => Credential, rotateInterval?: number) {
+        this.credential = load()
+        if (rotateInterval !== undefined) {
+            this.timer = setInterval(() => this.reload(), rotateInterval)
+            this.timer.unref()
+        }
+    }
+
+    public getCredential(): Credential {
+        return this.credential
+    }
+
+    public onRotate(listener: (credential: Credential) => void) {
+        this.listeners.push(listener)
+    }
+
+    // returns true when a new credential was loaded
+    public reload(): boolean {
+        const self = this
+        let credential: Credential
+        try {
+            credential = self.load()
+        } catch (error) {
+            logger.error(`Error reloading credential from ${self.name}: ${(error as Error).message}`)
+            return false
+        }
+        const previous = self.credential
+        if (credential.key === previous.key && credential.secret === previous.secret && credential.passphrase === previous.passphrase) {
+            return false
+        }
+        logger.log(`Credential from ${self.name} rotated`)
+        self.credential = credential
+        self.listeners.forEach((listener) => listener(credential))
+        return true
+    }
+
+    public stop() {
+        clearInterval(this.timer)
+    }
+}
+
+export const isCredentialProvider = (credential: Credential | CredentialProvider): credential is CredentialProvider => {
+    return typeof (credential as CredentialProvider).getCredential === 'function'
+}
+
+// connectors accept a plain credential as well, it is validated and its values masked in logs like any loaded one
+export const toCredentialProvider = (credential: Credential | CredentialProvider, source: string): CredentialProvider => {
+    if (isCredentialProvider(credential)) {
+        return credential
+    }
+    const validated = validateCredential(credential, source)
+    return new ReloadingCredentialProvider(source, () => validated)
+}
+
+export const createCredentialProvider = (source: CredentialSource): CredentialProvider => {
+    switch (source.type) {
+        case 'Environment': {
+            const prefix = source.prefix ?? 'OKX'
+            return new ReloadingCredentialProvider(`${prefix}_API_*`, () => loadEnvironmentCredential(prefix), source.rotateInterval)
+        }
+        case 'File': {
+            const path = getSourcePath(source)
+            return new ReloadingCredentialProvider(path, () => loadCredentialFile(path), source.rotateInterval)
+        }
+        case 'Keystore': {
+            const path = getSourcePath(source)
+            const passwordVariable = source.passwordVariable ?? 'OKX_KEYSTORE_PASSWORD'
+            // scrypt blocks the event loop, the keystore is only decrypted again once the file or password changed
+            let cached: { mtimeMs: number, password: string, credential: Credential } | undefined
+            return new ReloadingCredentialProvider(path, () => {
+                const password = process.env[passwordVariable]
+                if (password === undefined) {
+                    throw new Error(`${passwordVariable} is not set`)
+                }
+                const mtimeMs = statSync(path).mtimeMs
+                if (cached === undefined || cached.mtimeMs !== mtimeMs || cached.password !== password) {
+                    cached = { mtimeMs, password, credential: loadKeystore(path, password) }
+                }
+                return cached.credential
+            }, source.rotateInterval)
+        }
+        default:
+            throw new Error(`Unknown credential source ${source.type}`)
+    }
+}
+
+// credentialSource when set, else the inline credential
+export const getCredentialProvider = (settings: ConnectorSettings): CredentialProvider | undefined => {
+    if (settings.credentialSource !== undefined) {
+        return createCredentialProvider(settings.credentialSource)
+    }
+    if (settings.credential !== undefined) {
+        return toCredentialProvider(settings.credential, 'settings')
+    }
+    return undefined
+}
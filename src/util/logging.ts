@@ -0,0 +1,61 @@
+import { redact, redactValue } from './redaction'
+
+export type LogLevel = 'log' | 'warn' | 'error'
+
+const LogLevels: { [level: string]: number } = {
+    log: 0,
+    warn: 1,
+    error: 2,
+}
+
+export class Logger {
+
+    private static instances: Map<string, Logger> = new Map()
+    // messages below this level are dropped, for every logger
+    private static level: LogLevel = 'log'
+
+    private constructor(private name: string) {}
+
+    public static getInstance(name: string): Logger {
+        let logger = Logger.instances.get(name)
+        if (logger === undefined) {
+            logger = new Logger(name)
+            Logger.instances.set(name, logger)
+        }
+        return logger
+    }
+
+    public static setLevel(level: LogLevel) {
+        Logger.level = level
+    }
+
+    public log(message: string, ...args: any[]) {
+        if (!Logger.isEnabled('log')) {
+            return
+        }
+        console.log(this.format(message), ...args.map(redactValue))
+    }
+
+    public warn(message: string, ...args: any[]) {
+        if (!Logger.isEnabled('warn')) {
+            return
+        }
+        console.warn(this.format(message), ...args.map(redactValue))
+    }
+
+    public error(message: string, ...args: any[]) {
+        if (!Logger.isEnabled('error')) {
+            return
+        }
+        console.error(this.format(message), ...args.map(redactValue))
+    }
+
+    private static isEnabled(level: LogLevel): boolean {
+        return LogLevels[level] >= LogLevels[Logger.level]
+    }
+
+    private format(message: string): string {
+        // secrets and balances are masked before anything is written
+        return `${new Date().toISOString()} [${this.name}] ${redact(message)}`
+    }
+}
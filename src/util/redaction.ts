@@ -0,0 +1,53 @@
+const RedactedValue = '***'
+
+// json fields masked wherever they appear: credentials, login and signing fields, and account balances
+const RedactedFields = [
+    'key', 'apiKey', 'secret', 'passphrase', 'sign', 'password',
+    'OK-ACCESS-KEY', 'OK-ACCESS-SIGN', 'OK-ACCESS-PASSPHRASE',
+    'totalEq', 'adjEq', 'isoEq', 'eq', 'eqUsd', 'cashBal', 'availBal', 'availEq', 'frozenBal', 'ordFrozen',
+    'disEq', 'upl', 'bal', 'cash', 'frozen', 'available',
+    'spotBal', 'stgyEq', 'spotUpl', 'spotUplRatio', 'totalPnl', 'liab', 'crossLiab', 'isoLiab', 'interest',
+]
+
+const RedactedFieldPattern = new RegExp(`("(?:${RedactedFields.join('|')})"\\s*:\\s*)("(?:[^"\\\\]|\\\\.)*"|-?[0-9][0-9.eE+-]*)`, 'g')
+
+const redactedFieldSet = new Set(RedactedFields)
+
+// values loaded by credential providers, masked even outside of json
+const secrets: Set<string> = new Set()
+
+export const registerSecret = (secret: string) => {
+    // short values would mask unrelated text
+    if (secret.length >= 8) {
+        secrets.add(secret)
+    }
+}
+
+export const redact = (text: string): string => {
+    let redacted = text.replace(RedactedFieldPattern, `$1"${RedactedValue}"`)
+    secrets.forEach((secret: string) => {
+        redacted = redacted.split(secret).join(RedactedValue)
+    })
+    return redacted
+}
+
+// copies objects with their sensitive fields masked, other values are returned as they are
+export const redactValue = (value: any): any => {
+    if (typeof value === 'string') {
+        return redact(value)
+    }
+    if (value instanceof Error) {
+        const error = new Error(redact(value.message))
+        error.name = value.name
+        error.stack = value.stack === undefined ? undefined : redact(value.stack)
+        return error
+    }
+    if (Array.isArray(value)) {
+        return value.map(redactValue)
+    }
+    if (value !== null && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+        return Object.fromEntries(Object.entries(value).map(([key, field]) =>
+            [key, redactedFieldSet.has(key) ? RedactedValue : redactValue(field)]))
+    }
+    return value
+}